@@ -0,0 +1,83 @@
+import { ignoreErrors } from './util.js';
+import type { CircuitBreakerOptions, CircuitState } from './types.js';
+
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_COOLDOWN_MS = 30_000;
+
+/**
+ * Error thrown instead of sending while the circuit is open.
+ */
+export class CircuitOpenError extends Error {
+  constructor() {
+    super('Synquer: circuit open, send skipped');
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Tracks consecutive send failures and decides whether a send may go out.
+ *
+ * Opens after failureThreshold failures in a row. Once the cooldown has passed,
+ * the next send is let through as a probe: its outcome closes or re-opens the circuit.
+ */
+export class CircuitBreaker {
+  private readonly _failureThreshold: number;
+  private readonly _cooldownMs: number;
+  private readonly _onStateChange?: CircuitBreakerOptions['onStateChange'];
+  private _state: CircuitState = 'closed';
+  private _failures = 0;
+  private _openedAt = 0;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this._failureThreshold = options.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD;
+    this._cooldownMs = options.cooldownMs ?? DEFAULT_COOLDOWN_MS;
+    this._onStateChange = options.onStateChange;
+  }
+
+  /**
+   * Current state. An open circuit becomes half-open when the next send is attempted after the cooldown.
+   */
+  get state(): CircuitState {
+    return this._state;
+  }
+
+  /**
+   * Whether a send may go out now. Lets a single probe through once the cooldown has passed.
+   */
+  allowRequest(): boolean {
+    if (this._state === 'closed') return true;
+    if (this._state === 'half-open') return false;
+
+    if (Date.now() - this._openedAt < this._cooldownMs) return false;
+    this._transition('half-open');
+    return true;
+  }
+
+  /**
+   * Record a send that reached the endpoint.
+   */
+  recordSuccess(): void {
+    this._failures = 0;
+    this._transition('closed');
+  }
+
+  /**
+   * Record a send that failed because the endpoint was unavailable.
+   */
+  recordFailure(): void {
+    this._failures++;
+
+    if (this._state === 'half-open' || this._failures >= this._failureThreshold) {
+      this._openedAt = Date.now();
+      this._transition('open');
+    }
+  }
+
+  private _transition(state: CircuitState): void {
+    const previous = this._state;
+    if (state === previous) return;
+
+    this._state = state;
+    ignoreErrors(() => this._onStateChange?.(state, previous));
+  }
+}
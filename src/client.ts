@@ -1,12 +1,57 @@
 import { Job } from './job.js';
-import type { SynquerOptions, JobOptions, IngestEvent } from './types.js';
+import { HttpTransport, TransportError } from './transport.js';
+import { isAsyncGenerator, runInJob, trackGenerator } from './run.js';
+import { createRedactor } from './redact.js';
+import { Sampler } from './sampling.js';
+import { chunkEvents, eventBytes, truncateEvent } from './payload.js';
+import { CircuitBreaker, CircuitOpenError } from './circuit.js';
+import { bindGenerator, currentJob, runWithJob } from './context.js';
+import { Monitor } from './monitor.js';
+import { ignoreErrors, ignoreRejection, unrefTimer } from './util.js';
+import type { JobContext } from './job.js';
+import type {
+  SynquerOptions,
+  JobOptions,
+  IngestEvent,
+  BatchResponse,
+  RejectedEvent,
+  QueueStorage,
+  Transport,
+  DropReason,
+  RetryPolicy,
+  CircuitBreakerOptions,
+  CircuitState,
+  EventLevel,
+  ErrorExtractor,
+  SynquerPlugin,
+  TrackOptions,
+  TrackDecorator,
+  SynquerLogger,
+  SynquerStats,
+  ShutdownOptions,
+  ShutdownResult,
+  MonitorOptions,
+} from './types.js';
 
-const DEFAULT_BASE_URL = 'https://api.synquer.dev';
 const DEFAULT_MODE = 'per-job';
 const DEFAULT_BATCH_INTERVAL = 2000;
 const DEFAULT_BATCH_SIZE = 100;
 const DEFAULT_MAX_RETRIES = 3;
-const FETCH_TIMEOUT_MS = 10_000;
+const DEFAULT_RETRY_BASE_DELAY = 1000;
+const DEFAULT_RETRY_MAX_DELAY = 10_000;
+const DEFAULT_MAX_RETRY_AFTER = 60_000;
+const DEFAULT_RETRYABLE_STATUSES = [408, 425, 429, 500, 502, 503, 504];
+const DEFAULT_MAX_BUFFER_SIZE = 10_000;
+const DEFAULT_DROP_POLICY = 'drop-oldest';
+const DEFAULT_STATS_INTERVAL = 60_000;
+const DEFAULT_SIGNAL_SHUTDOWN_TIMEOUT = 5000;
+const DEFAULT_CHILD_TIMEOUT = 30_000;
+const SHUTDOWN_SIGNALS = ['SIGTERM', 'SIGINT'] as const;
+
+/**
+ * Events not sent when a split batch failed partway, keyed by the thrown error.
+ */
+const unsentEvents = new WeakMap<Error, IngestEvent[]>();
 
 /**
  * Main Synquer client.
@@ -14,50 +59,207 @@ const FETCH_TIMEOUT_MS = 10_000;
  * Create a single instance per process and use it to create jobs.
  */
 export class Synquer {
-  private readonly _options: Required<Pick<SynquerOptions, 'apiKey' | 'baseUrl' | 'mode' | 'batchInterval' | 'batchSize' | 'maxRetries' | 'disabled'>> & {
+  private readonly _options: Required<Pick<SynquerOptions, 'mode' | 'batchInterval' | 'batchSize' | 'maxRetries' | 'disabled' | 'maxBufferSize' | 'dropPolicy'>> & {
     onError?: (error: Error) => void;
+    onRejected?: (rejected: RejectedEvent[]) => void;
+    onDrop?: (events: IngestEvent[], reason: DropReason) => void;
   };
 
+  private readonly _transport: Transport;
+  private readonly _retryPolicy: Required<Omit<RetryPolicy, 'retryableStatuses'>> & { retryableStatuses: Set<number> };
+  private readonly _circuit?: CircuitBreaker;
+  private readonly _whenOpen: NonNullable<CircuitBreakerOptions['whenOpen']>;
   private _buffer: IngestEvent[] = [];
   private _flushTimer: ReturnType<typeof setInterval> | null = null;
   private _flushing = false;
   private _shutdownCalled = false;
+  private _shutdown?: Promise<ShutdownResult>;
+  private readonly _signalHandlers = new Map<NodeJS.Signals | 'beforeExit', () => void>();
+  private _droppedEvents = 0;
+  private readonly _openJobs = new Map<Job, ReturnType<typeof setTimeout> | null>();
+  private readonly _jobTimeoutMs?: number;
+  private readonly _childTimeoutMs: number;
+  private readonly _minLevel?: EventLevel;
+  private readonly _redact?: (event: IngestEvent) => IngestEvent;
+  private readonly _sampler?: Sampler;
+  private readonly _errorExtractors?: ErrorExtractor[];
+  private readonly _plugins?: SynquerPlugin[];
+  private readonly _maxPayloadBytes?: number;
+  private readonly _nonBlocking: boolean;
+  private readonly _asyncContext: boolean;
+  private readonly _waitUntil?: (promise: Promise<void>) => void;
+  /** In-flight sends and the number of events each carries */
+  private readonly _inFlight = new Map<Promise<void>, number>();
+  private readonly _logger?: SynquerLogger;
+  private _statsTimer: ReturnType<typeof setInterval> | null = null;
+  private readonly _counters = {
+    bufferedEvents: 0,
+    sentEvents: 0,
+    rejectedEvents: 0,
+    retries: 0,
+    failedSends: 0,
+    sendAttempts: 0,
+    sendTimeMs: 0,
+  };
+  private _lastError?: Error;
+
+  private readonly _storage?: QueueStorage;
+  private readonly _seqs = new WeakMap<IngestEvent, number>();
+  private _nextSeq = 0;
+  private _storageOp: Promise<void> = Promise.resolve();
 
   constructor(options: SynquerOptions) {
-    if (!options.apiKey) {
+    if (!options.apiKey && !options.transport) {
       throw new Error('Synquer: apiKey is required');
     }
 
+    this._transport = options.transport ?? new HttpTransport({
+      apiKey: options.apiKey!,
+      baseUrl: options.baseUrl,
+      compression: options.compression,
+    });
+
     this._options = {
-      apiKey: options.apiKey,
-      baseUrl: (options.baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, ''),
       mode: options.mode ?? DEFAULT_MODE,
       batchInterval: options.batchInterval ?? DEFAULT_BATCH_INTERVAL,
       batchSize: options.batchSize ?? DEFAULT_BATCH_SIZE,
       maxRetries: options.maxRetries ?? DEFAULT_MAX_RETRIES,
       disabled: options.disabled ?? false,
+      maxBufferSize: options.maxBufferSize ?? DEFAULT_MAX_BUFFER_SIZE,
+      dropPolicy: options.dropPolicy ?? DEFAULT_DROP_POLICY,
       onError: options.onError,
+      onRejected: options.onRejected,
+      onDrop: options.onDrop,
+    };
+
+    this._retryPolicy = {
+      baseDelayMs: options.retryPolicy?.baseDelayMs ?? DEFAULT_RETRY_BASE_DELAY,
+      maxDelayMs: options.retryPolicy?.maxDelayMs ?? DEFAULT_RETRY_MAX_DELAY,
+      jitter: options.retryPolicy?.jitter ?? 'full',
+      retryableStatuses: new Set(options.retryPolicy?.retryableStatuses ?? DEFAULT_RETRYABLE_STATUSES),
+      maxRetryAfterMs: options.retryPolicy?.maxRetryAfterMs ?? DEFAULT_MAX_RETRY_AFTER,
     };
+
+    this._circuit = options.circuitBreaker && new CircuitBreaker(options.circuitBreaker);
+    this._whenOpen = options.circuitBreaker?.whenOpen ?? 'buffer';
+
+    this._jobTimeoutMs = options.jobTimeoutMs;
+    this._childTimeoutMs = options.childTimeoutMs ?? options.jobTimeoutMs ?? DEFAULT_CHILD_TIMEOUT;
+    this._minLevel = options.minLevel;
+    this._redact = options.redact && createRedactor(options.redact);
+    this._sampler = options.sampling && new Sampler(options.sampling);
+    this._errorExtractors = options.errorExtractors;
+    this._plugins = options.plugins;
+    this._maxPayloadBytes = options.maxPayloadBytes;
+    this._nonBlocking = options.nonBlocking ?? false;
+    this._asyncContext = options.asyncContext ?? false;
+    this._waitUntil = options.waitUntil;
+    this._logger = options.debug === true ? console : options.debug || undefined;
+
+    if (options.onStats) {
+      this._startStatsTimer(options.onStats, options.statsInterval ?? DEFAULT_STATS_INTERVAL);
+    }
+
+    if (options.handleSignals) {
+      const timeoutMs = options.handleSignals === true ? undefined : options.handleSignals.timeoutMs;
+      this._registerSignalHandlers(timeoutMs ?? DEFAULT_SIGNAL_SHUTDOWN_TIMEOUT);
+    }
+
+    if (options.storage) {
+      this._storage = options.storage;
+      this._restoreQueue();
+    }
+  }
+
+  /**
+   * The job bound to the current async context, if any. See the asyncContext option.
+   */
+  static currentJob(): Job | undefined {
+    return currentJob();
+  }
+
+  /**
+   * Run fn with the job bound to its async context, for jobs created with job().
+   */
+  static withJob<T>(job: Job, fn: (job: Job) => T): T {
+    return runWithJob(job, () => fn(job));
   }
 
   /**
    * Create a new job to track a sync operation.
+   *
+   * With asyncContext, the job becomes a child of the current job, if any.
+   * It is not bound to the context itself: use run(), track() or Synquer.withJob().
    */
   job(options: JobOptions): Job {
+    return this._contextualJob(options);
+  }
+
+  /**
+   * Create a job, as a child of the current job when asyncContext is enabled.
+   */
+  private _contextualJob(options: JobOptions): Job {
+    const parent = this._asyncContext ? currentJob() : undefined;
+
+    // Only open jobs of this client can adopt children
+    if (parent && this._openJobs.has(parent)) {
+      return parent.child(options);
+    }
+
+    return this._createJob(options);
+  }
+
+  /**
+   * Continue a job started in another process, identified by its externalId.
+   *
+   * The returned job records a job.resumed event instead of job.started, and its events
+   * are stitched to the original job by externalId. Jobs with an externalId are never sampled out.
+   */
+  resume(externalId: string, options: Partial<Omit<JobOptions, 'externalId'>> = {}): Job {
+    if (!externalId) {
+      throw new Error('Synquer: externalId is required to resume a job');
+    }
+
+    return this._createJob({ ...options, type: options.type ?? '', externalId }, { resumed: true });
+  }
+
+  /**
+   * Monitor a scheduled sync. Each monitor.run() checks in when it starts and finishes,
+   * and sends job.heartbeat events while in progress.
+   */
+  monitor(name: string, options: MonitorOptions): Monitor {
+    return new Monitor(name, options, {
+      createJob: startData => this._createJob({ type: name }, { startData }),
+      runJob: (job, fn) => this._runJob(job, fn),
+    });
+  }
+
+  private _createJob(options: JobOptions, context: Pick<JobContext, 'resumed' | 'startData'> = {}): Job {
     const id = crypto.randomUUID();
+    const { resumed = false, startData } = context;
+
+    // Jobs that may be continued elsewhere (externalId) and monitored jobs are never sampled out,
+    // so a resumed job always has its start
+    const { sampled, keepFailed } = (!options.externalId && !startData && this._sampler?.sample(options.type))
+      || { sampled: true, keepFailed: true };
+
+    const sendFn = async (jobEvents: IngestEvent[]): Promise<void> => {
+      // Sampled-out jobs (and their children) are dropped unless they failed
+      if (!sampled && !(keepFailed && isFailure(jobEvents))) return;
+
+      // Shrink oversized events before they are buffered or sent. Jobs have already redacted them
+      const events = this._maxPayloadBytes !== undefined
+        ? this._fitEvents(jobEvents, this._maxPayloadBytes)
+        : jobEvents;
 
-    const sendFn = async (events: IngestEvent[]): Promise<void> => {
       if (this._options.mode === 'per-job') {
-        // Per-job mode: send immediately (fire-and-forget, never throw)
-        try {
-          await this._send(events);
-        } catch {
-          // Silently ignore - telemetry should never break the app
-        }
+        // Per-job mode: send immediately. Non-blocking mode doesn't wait for the send
+        const send = this._trackSend(this._sendJob(events), events.length);
+        if (!this._nonBlocking) await send;
       } else {
-        // Batch mode: add to global buffer
-        this._buffer.push(...events);
-        this._ensureFlushTimer();
+        // Batch mode: add to global buffer, waiting for room under the block policy
+        await this._waitForRoom(events.length);
+        this._enqueue(events);
 
         // Auto-flush if buffer is full
         if (this._buffer.length >= this._options.batchSize) {
@@ -66,7 +268,88 @@ export class Synquer {
       }
     };
 
-    return new Job(id, options, sendFn);
+    return new Job(id, options, sendFn, {
+      minLevel: this._minLevel,
+      childTimeoutMs: this._childTimeoutMs,
+      onInvalid: this._options.onError,
+      sampled,
+      errorExtractors: this._errorExtractors,
+      redact: this._redact,
+      resumed,
+      startData,
+      plugins: this._plugins,
+      onStart: job => this._trackJob(job),
+      onFinish: job => this._untrackJob(job),
+    });
+  }
+
+  /**
+   * Per-job mode: send the events of one job (never throws).
+   */
+  private async _sendJob(events: IngestEvent[]): Promise<void> {
+    try {
+      await this._send(events);
+    } catch (err) {
+      // While the circuit is open, unsent events are buffered or dropped by policy.
+      // Other failures are ignored
+      if (this._circuit && this._circuit.state !== 'closed') {
+        const unsent = unsentOf(err, events);
+        if (this._whenOpen === 'drop') {
+          this._dropEvents(unsent, 'circuit-open');
+        } else {
+          this._enqueue(unsent);
+        }
+      }
+    }
+  }
+
+  /**
+   * Run work inside a new job and complete it automatically.
+   *
+   * The job is marked done with the callback's result, or failed with its error before it is rethrown.
+   * An async generator callback resolves to the generator: the job completes when iteration ends.
+   * With asyncContext, the job is bound to the callback's async context.
+   */
+  run<T>(options: JobOptions, fn: (job: Job) => T | Promise<T>): Promise<T> {
+    return this._runJob(this._contextualJob(options), fn);
+  }
+
+  private _runJob<T>(job: Job, fn: (job: Job) => T | Promise<T>): Promise<T> {
+    return Promise.resolve(this._runTracked(job, fn)) as Promise<T>;
+  }
+
+  /**
+   * Wrap a function so every call runs inside a new job.
+   *
+   * The job is passed as the first argument. Options can be computed from the call's arguments.
+   * Async generator functions are supported: the job completes when iteration ends.
+   *
+   * Called with options only, returns a method decorator. Decorated methods don't receive the job.
+   */
+  track<A extends unknown[], Y, R>(
+    options: TrackOptions<A>,
+    fn: (job: Job, ...args: A) => AsyncGenerator<Y, R>,
+  ): (...args: A) => AsyncGenerator<Y, R>;
+  track<A extends unknown[], R>(
+    options: TrackOptions<A>,
+    fn: (job: Job, ...args: A) => R | Promise<R>,
+  ): (...args: A) => Promise<R>;
+  track<A extends unknown[]>(options: TrackOptions<A>): TrackDecorator<A>;
+  track<A extends unknown[]>(
+    options: TrackOptions<A>,
+    fn?: (job: Job, ...args: A) => unknown,
+  ): ((...args: A) => unknown) | TrackDecorator<A> {
+    if (fn) {
+      return (...args: A) => this._invokeTracked(options, args, job => fn(job, ...args));
+    }
+
+    const client = this;
+    return <This, R>(
+      method: (this: This, ...args: A) => R,
+      _context: ClassMethodDecoratorContext<This, (this: This, ...args: A) => R>,
+    ) => function (this: This, ...args: A): R {
+      return client._invokeTracked(options, args, () => method.apply(this, args)) as R;
+    };
   }
 
   /**
@@ -80,94 +363,578 @@ export class Synquer {
     const events = this._buffer.splice(0);
 
     try {
-      await this._send(events);
-    } catch {
-      // Put events back at the front of the buffer on failure
-      this._buffer.unshift(...events);
+      await this._trackSend(this._send(events), events.length);
+
+      // Transiently rejected events were re-queued - everything else is acknowledged
+      const requeued = new Set(this._buffer);
+      this._ackQueued(events.filter(event => !requeued.has(event)));
+    } catch (err) {
+      // Put unsent events back at the front of the buffer on failure, unless the open circuit drops them.
+      // When a split batch partly succeeded, only the failed part is unsent.
+      let unsent = unsentOf(err, events);
+      if (this._circuit && this._circuit.state !== 'closed' && this._whenOpen === 'drop') {
+        this._dropEvents(unsent, 'circuit-open');
+        unsent = [];
+      }
+
+      if (unsent !== events) {
+        const pending = new Set([...unsent, ...this._buffer]);
+        this._ackQueued(events.filter(event => !pending.has(event)));
+      }
+
+      this._buffer.unshift(...unsent);
+      this._enforceBufferLimit();
     } finally {
       this._flushing = false;
     }
   }
 
   /**
-   * Gracefully shutdown: flush remaining events and stop timers.
+   * Number of jobs created but not yet completed.
+   */
+  get openJobs(): number {
+    return this._openJobs.size;
+  }
+
+  /**
+   * Number of events dropped because the buffer was full or the circuit was open.
+   */
+  get droppedEvents(): number {
+    return this._droppedEvents;
+  }
+
+  /**
+   * Number of sends in flight, including flushes.
+   */
+  pending(): number {
+    return this._inFlight.size;
+  }
+
+  /**
+   * Wait for all in-flight sends to settle, including sends started while waiting.
+   * Buffered events that are not being sent yet are not flushed.
+   */
+  async drain(): Promise<void> {
+    while (this._inFlight.size > 0) {
+      await Promise.all(this._inFlight.keys());
+    }
+  }
+
+  /**
+   * Counters describing what the client has done since it was created.
+   */
+  stats(): SynquerStats {
+    const { sendAttempts, sendTimeMs, ...counters } = this._counters;
+
+    return {
+      ...counters,
+      droppedEvents: this._droppedEvents,
+      sendAttempts,
+      avgSendLatencyMs: sendAttempts > 0 ? sendTimeMs / sendAttempts : 0,
+      bufferDepth: this._buffer.length,
+      pendingSends: this._inFlight.size,
+      openJobs: this._openJobs.size,
+      circuitState: this.circuitState,
+      lastError: this._lastError,
+    };
+  }
+
+  /**
+   * State of the circuit breaker. Always 'closed' when no circuitBreaker is configured.
+   */
+  get circuitState(): CircuitState {
+    return this._circuit?.state ?? 'closed';
+  }
+
+  /**
+   * Gracefully shutdown: end open jobs as abandoned, flush remaining events and stop timers.
+   *
+   * Without a timeout, the buffer is flushed once. With timeoutMs, failed flushes are retried
+   * until the deadline. Calling it again returns the result of the first call.
    */
-  async shutdown(): Promise<void> {
-    if (this._shutdownCalled) return;
+  shutdown(options: ShutdownOptions = {}): Promise<ShutdownResult> {
+    this._shutdown ??= this._runShutdown(options.timeoutMs);
+    return this._shutdown;
+  }
+
+  private async _runShutdown(timeoutMs: number | undefined): Promise<ShutdownResult> {
     this._shutdownCalled = true;
+    this._removeSignalHandlers();
+
+    const deadline = timeoutMs !== undefined ? Date.now() + timeoutMs : undefined;
 
     if (this._flushTimer) {
       clearInterval(this._flushTimer);
       this._flushTimer = null;
     }
 
-    // Final flush
-    if (this._buffer.length > 0) {
-      await this.flush();
+    if (this._statsTimer) {
+      clearInterval(this._statsTimer);
+      this._statsTimer = null;
+    }
+
+    // Jobs that never completed are sent as abandoned instead of disappearing
+    await beforeDeadline(Promise.all([...this._openJobs.keys()].map(job => job.expire('abandoned'))), deadline);
+
+    // Wait for sends already in flight, including a flush in progress
+    await beforeDeadline(this.drain(), deadline);
+
+    // Wait for queue replay so restored events are flushed too
+    await beforeDeadline(this._storageOp, deadline);
+
+    // Final flush, retried until the deadline when there is one
+    for (let attempt = 0; this._buffer.length > 0; attempt++) {
+      await beforeDeadline(this.flush(), deadline);
+
+      if (deadline === undefined || this._buffer.length === 0) break;
+      const remainingMs = deadline - Date.now();
+      if (remainingMs <= 0) break;
+
+      await new Promise(resolve => setTimeout(resolve, Math.min(this._retryDelay(attempt, undefined), remainingMs)));
+    }
+
+    await beforeDeadline(this._storageOp, deadline);
+
+    let unsentEvents = this._buffer.length;
+    for (const count of this._inFlight.values()) {
+      unsentEvents += count;
+    }
+    return { unsentEvents };
+  }
+
+  /**
+   * Shut down on SIGTERM, SIGINT and beforeExit. A signal is raised again once shutdown
+   * has finished, unless other handlers are listening for it.
+   */
+  private _registerSignalHandlers(timeoutMs: number): void {
+    for (const signal of SHUTDOWN_SIGNALS) {
+      const handler = (): void => {
+        this.shutdown({ timeoutMs }).finally(() => {
+          if (process.listenerCount(signal) === 0) {
+            process.kill(process.pid, signal);
+          }
+        });
+      };
+      this._signalHandlers.set(signal, handler);
+      process.once(signal, handler);
+    }
+
+    const onBeforeExit = (): void => ignoreRejection(this.shutdown({ timeoutMs }));
+    this._signalHandlers.set('beforeExit', onBeforeExit);
+    process.once('beforeExit', onBeforeExit);
+  }
+
+  private _removeSignalHandlers(): void {
+    for (const [event, handler] of this._signalHandlers) {
+      process.removeListener(event, handler);
+    }
+    this._signalHandlers.clear();
+  }
+
+  /**
+   * Register an open job and start its timeout.
+   */
+  private _trackJob(job: Job): void {
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const timeoutMs = this._jobTimeoutMs;
+    if (timeoutMs !== undefined) {
+      timer = setTimeout(() => ignoreRejection(job.expire('timeout', timeoutMs)), timeoutMs);
+      unrefTimer(timer);
+    }
+
+    this._openJobs.set(job, timer);
+  }
+
+  private _untrackJob(job: Job): void {
+    const timer = this._openJobs.get(job);
+    if (timer) clearTimeout(timer);
+    this._openJobs.delete(job);
+  }
+
+  /**
+   * Create a job for a tracked call and complete it when the call settles.
+   */
+  private _invokeTracked<A extends unknown[]>(
+    options: TrackOptions<A>,
+    args: A,
+    call: (job: Job) => unknown,
+  ): unknown {
+    const job = this._contextualJob(typeof options === 'function' ? options(...args) : options);
+    return this._runTracked(job, call);
+  }
+
+  /**
+   * Call fn with the job and complete the job when the call settles, or when iteration
+   * ends for async generators.
+   */
+  private _runTracked(job: Job, call: (job: Job) => unknown): unknown {
+    let result: unknown;
+    try {
+      result = this._asyncContext ? runWithJob(job, () => call(job)) : call(job);
+    } catch (err) {
+      return job.failed(err).then(() => {
+        throw err;
+      });
+    }
+
+    if (isAsyncGenerator(result)) {
+      return trackGenerator(job, this._asyncContext ? bindGenerator(job, result) : result);
+    }
+
+    return runInJob(job, () => result);
+  }
+
+  /**
+   * Truncate events too large to be sent on their own, dropping those that still don't fit.
+   */
+  private _fitEvents(events: IngestEvent[], maxBytes: number): IngestEvent[] {
+    const fitted: IngestEvent[] = [];
+
+    for (const event of events) {
+      const result = truncateEvent(event, maxBytes);
+      if (result !== event) {
+        ignoreErrors(() => this._options.onError?.(new Error(
+          `Synquer: ${event.type} event of ${eventBytes(event)} bytes exceeds maxPayloadBytes (${maxBytes}) `
+          + `and was ${result ? 'truncated' : 'dropped'}`,
+        )));
+      }
+      if (result) fitted.push(result);
+    }
+
+    return fitted;
+  }
+
+  /**
+   * Register an in-flight send with pending()/drain() and hand it to waitUntil.
+   * The registered promise never rejects.
+   */
+  private _trackSend(send: Promise<void>, eventCount: number): Promise<void> {
+    const settled = send.then(() => undefined, () => undefined);
+    this._inFlight.set(settled, eventCount);
+    settled.then(() => this._inFlight.delete(settled));
+
+    const waitUntil = this._waitUntil;
+    if (waitUntil) {
+      ignoreErrors(() => waitUntil(settled));
     }
+
+    return send;
   }
 
   /**
-   * Send events to the API with retry logic.
+   * Send events through the transport with retry logic.
    */
   private async _send(events: IngestEvent[]): Promise<void> {
     if (this._options.disabled || events.length === 0) return;
 
-    const url = `${this._options.baseUrl}/v1/events/batch`;
-    const body = JSON.stringify({ events });
+    // Split batches over maxPayloadBytes into several requests
+    if (this._maxPayloadBytes !== undefined) {
+      const chunks = chunkEvents(events, this._maxPayloadBytes);
+      if (chunks.length > 1) return this._sendParts(chunks);
+    }
 
     let lastError: Error | undefined;
 
     for (let attempt = 0; attempt <= this._options.maxRetries; attempt++) {
-      try {
-        const controller = new AbortController();
-        const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
-
-        const response = await fetch(url, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${this._options.apiKey}`,
-          },
-          body,
-          signal: controller.signal,
-        });
+      // Skip the send while the circuit is open
+      if (this._circuit && !this._circuit.allowRequest()) {
+        if (!lastError) throw new CircuitOpenError();
+        break;
+      }
 
-        clearTimeout(timeout);
+      if (attempt > 0) this._counters.retries++;
+
+      const start = Date.now();
+      let response: BatchResponse | void;
+      try {
+        response = await this._transport.send(events);
+      } catch (err) {
+        this._recordAttempt(attempt, events, start, err);
 
-        if (response.ok || response.status === 207) {
-          return; // Success (200 or 207 partial)
+        // Only failures worth retrying suggest the endpoint is down
+        const retryable = this._isRetryable(err);
+        if (retryable) {
+          this._circuit?.recordFailure();
+        } else {
+          this._circuit?.recordSuccess();
         }
 
-        // Non-retryable status codes
-        if (response.status === 400 || response.status === 401) {
-          const data = await response.json().catch(() => ({})) as Record<string, unknown>;
-          lastError = new Error(`Synquer API error ${response.status}: ${data.error ?? 'Unknown error'}`);
-          break; // Don't retry 400/401
+        // Payload too large: send each half separately
+        if (err instanceof TransportError && err.status === 413 && events.length > 1) {
+          const middle = Math.ceil(events.length / 2);
+          return this._sendParts([events.slice(0, middle), events.slice(middle)]);
         }
 
-        // Retryable errors (500, 502, 503, 429, etc.)
-        lastError = new Error(`Synquer API error ${response.status}`);
-      } catch (err) {
         lastError = err instanceof Error ? err : new Error(String(err));
-      }
+        if (!retryable) break;
+
+        const retryAfterMs = err instanceof TransportError ? err.retryAfterMs : undefined;
+        if (retryAfterMs !== undefined && retryAfterMs > this._retryPolicy.maxRetryAfterMs) break;
+
+        // Stop retrying once failures have opened the circuit
+        if (this._circuit?.state === 'open') break;
 
-      // Exponential backoff before retry
-      if (attempt < this._options.maxRetries) {
-        const delay = Math.min(1000 * Math.pow(2, attempt), 10_000);
-        await new Promise(resolve => setTimeout(resolve, delay));
+        if (attempt < this._options.maxRetries) {
+          await new Promise(resolve => setTimeout(resolve, this._retryDelay(attempt, retryAfterMs)));
+        }
+        continue;
       }
+
+      // Outside the try: the API accepted the batch, whatever the rejection callbacks do
+      this._recordAttempt(attempt, events, start);
+      this._circuit?.recordSuccess();
+      this._counters.sentEvents += events.length - this._handleRejections(events, response?.errors);
+      return;
     }
 
     // All retries exhausted
     if (lastError) {
+      this._counters.failedSends++;
+      this._lastError = lastError;
       if (this._options.onError) {
         this._options.onError(lastError);
       }
+      // A transport may throw the same error again: forget what an earlier split recorded
+      unsentEvents.delete(lastError);
       throw lastError;
     }
   }
 
+  /**
+   * Count a transport attempt towards the latency stats and trace it through the debug logger.
+   */
+  private _recordAttempt(attempt: number, events: IngestEvent[], start: number, err?: unknown): void {
+    const durationMs = Date.now() - start;
+    this._counters.sendAttempts++;
+    this._counters.sendTimeMs += durationMs;
+
+    if (!this._logger) return;
+
+    const logger = this._logger;
+    const status = err instanceof TransportError ? err.status : undefined;
+    ignoreErrors(() => {
+      logger.debug(`Synquer: send attempt ${attempt + 1} ${err ? 'failed' : 'succeeded'}`, {
+        attempt: attempt + 1,
+        events: events.length,
+        durationMs,
+        ...(status !== undefined && { status }),
+        ...(err !== undefined && { error: err instanceof Error ? err.message : String(err) }),
+      });
+    });
+  }
+
+  /**
+   * Send a batch split into parts, one request each, e.g. after a 413.
+   * On failure, the thrown error records which events were not sent.
+   */
+  private async _sendParts(parts: IngestEvent[][]): Promise<void> {
+    for (let i = 0; i < parts.length; i++) {
+      const part = parts[i]!;
+      try {
+        await this._send(part);
+      } catch (err) {
+        if (err instanceof Error) {
+          unsentEvents.set(err, [...(unsentEvents.get(err) ?? part), ...parts.slice(i + 1).flat()]);
+        }
+        throw err;
+      }
+    }
+  }
+
+  /**
+   * Whether a failed send should be retried. Status codes follow the retry policy;
+   * other transport errors decide for themselves, and network errors are always retried.
+   */
+  private _isRetryable(err: unknown): boolean {
+    if (!(err instanceof TransportError)) return true;
+    if (err.status !== undefined) return this._retryPolicy.retryableStatuses.has(err.status);
+    return err.retryable;
+  }
+
+  /**
+   * Exponential backoff with optional full jitter. Retry-After wins when it asks for longer.
+   */
+  private _retryDelay(attempt: number, retryAfterMs: number | undefined): number {
+    const { baseDelayMs, maxDelayMs, jitter } = this._retryPolicy;
+    const backoff = Math.min(baseDelayMs * Math.pow(2, attempt), maxDelayMs);
+    const delay = jitter === 'full' ? Math.random() * backoff : backoff;
+    return Math.max(delay, retryAfterMs ?? 0);
+  }
+
+  /**
+   * Map rejected batch indexes back to their events.
+   * Transient rejections are re-queued in the buffer, permanent ones go to onRejected.
+   * Returns the number of events the API did not accept.
+   */
+  private _handleRejections(events: IngestEvent[], errors: BatchResponse['errors'] | undefined): number {
+    if (!Array.isArray(errors) || errors.length === 0) return 0;
+
+    const rejected: RejectedEvent[] = [];
+    const requeue: IngestEvent[] = [];
+
+    for (const { index, error, retryable } of errors) {
+      const event = events[index];
+      if (!event) continue;
+
+      if (retryable) {
+        requeue.push(event);
+      } else {
+        rejected.push({ event, error, index });
+      }
+    }
+
+    if (requeue.length > 0) {
+      this._enqueue(requeue);
+    }
+
+    this._counters.rejectedEvents += rejected.length;
+    const onRejected = this._options.onRejected;
+    if (rejected.length > 0 && onRejected) {
+      ignoreErrors(() => onRejected(rejected));
+    }
+
+    return rejected.length + requeue.length;
+  }
+
+  /**
+   * Add events to the buffer, persisting any that are not stored yet.
+   */
+  private _enqueue(events: IngestEvent[]): void {
+    this._counters.bufferedEvents += events.length;
+    this._buffer.push(...events);
+    this._ensureFlushTimer();
+    this._enforceBufferLimit();
+
+    // Sequence numbers are assigned in the storage chain, after any replay has finished
+    this._storageTask(storage => {
+      const entries = events
+        .filter(event => !this._seqs.has(event))
+        .map(event => {
+          const seq = this._nextSeq++;
+          this._seqs.set(event, seq);
+          return { seq, event };
+        });
+
+      if (entries.length > 0) {
+        return storage.append(entries);
+      }
+    });
+  }
+
+  /**
+   * Remove delivered (or permanently rejected) events from storage.
+   */
+  private _ackQueued(events: IngestEvent[]): void {
+    this._storageTask(storage => {
+      const seqs: number[] = [];
+      for (const event of events) {
+        const seq = this._seqs.get(event);
+        if (seq !== undefined) {
+          seqs.push(seq);
+          this._seqs.delete(event);
+        }
+      }
+
+      if (seqs.length > 0) {
+        return storage.ack(seqs);
+      }
+    });
+  }
+
+  /**
+   * Replay undelivered events from storage into the front of the buffer.
+   */
+  private _restoreQueue(): void {
+    this._storageTask(async storage => {
+      const entries = await storage.load();
+      if (entries.length === 0) return;
+
+      const restored = entries.map(({ seq, event }) => {
+        this._seqs.set(event, seq);
+        this._nextSeq = Math.max(this._nextSeq, seq + 1);
+        return event;
+      });
+
+      this._buffer.unshift(...restored);
+      this._ensureFlushTimer();
+      this._enforceBufferLimit();
+    });
+  }
+
+  /**
+   * Block policy: flush until the buffer has room for count more events.
+   */
+  private async _waitForRoom(count: number): Promise<void> {
+    if (this._options.dropPolicy !== 'block') return;
+
+    while (
+      this._buffer.length > 0
+      && this._buffer.length + count > this._options.maxBufferSize
+      && !this._shutdownCalled
+    ) {
+      await this.flush();
+
+      if (this._buffer.length + count > this._options.maxBufferSize) {
+        await new Promise(resolve => setTimeout(resolve, this._options.batchInterval));
+      }
+    }
+  }
+
+  /**
+   * Drop events beyond maxBufferSize according to the drop policy.
+   * Under the block policy, events that could not wait (re-queues, replays) drop the oldest.
+   */
+  private _enforceBufferLimit(): void {
+    const overflow = this._buffer.length - this._options.maxBufferSize;
+    if (overflow <= 0) return;
+
+    const dropped = this._options.dropPolicy === 'drop-newest'
+      ? this._buffer.splice(-overflow)
+      : this._buffer.splice(0, overflow);
+
+    this._dropEvents(dropped, 'buffer-full');
+  }
+
+  /**
+   * Count and acknowledge events dropped without being sent, and report them through onDrop.
+   */
+  private _dropEvents(events: IngestEvent[], reason: DropReason): void {
+    if (events.length === 0) return;
+
+    this._droppedEvents += events.length;
+    this._ackQueued(events);
+
+    const onDrop = this._options.onDrop;
+    if (onDrop) {
+      ignoreErrors(() => onDrop(events, reason));
+    }
+  }
+
+  /**
+   * Run a storage operation after all previous ones, reporting failures through onError.
+   */
+  private _storageTask(task: (storage: QueueStorage) => void | Promise<void>): void {
+    const storage = this._storage;
+    if (!storage) return;
+
+    this._storageOp = this._storageOp
+      .then(() => task(storage))
+      .catch((err: unknown) => {
+        if (this._options.onError) {
+          this._options.onError(err instanceof Error ? err : new Error(String(err)));
+        }
+      });
+  }
+
+  /**
+   * Report stats through onStats every intervalMs.
+   */
+  private _startStatsTimer(onStats: (stats: SynquerStats) => void, intervalMs: number): void {
+    this._statsTimer = setInterval(() => ignoreErrors(() => onStats(this.stats())), intervalMs);
+    unrefTimer(this._statsTimer);
+  }
+
   /**
    * Start the periodic flush timer for batch mode.
    */
@@ -179,10 +946,39 @@ export class Synquer {
         // Silently ignore flush errors - events remain in buffer
       });
     }, this._options.batchInterval);
+    unrefTimer(this._flushTimer);
+  }
+}
 
-    // Unref the timer so it doesn't keep the process alive
-    if (typeof this._flushTimer === 'object' && 'unref' in this._flushTimer) {
-      this._flushTimer.unref();
-    }
+/**
+ * Wait for a promise, but no longer than the deadline.
+ */
+async function beforeDeadline(promise: Promise<unknown>, deadline: number | undefined): Promise<void> {
+  if (deadline === undefined) {
+    await promise;
+    return;
   }
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const expired = new Promise<void>(resolve => {
+    timer = setTimeout(resolve, Math.max(0, deadline - Date.now()));
+  });
+
+  try {
+    await Promise.race([promise, expired]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Events a failed send did not deliver: all of them, unless a split batch partly succeeded.
+ */
+function unsentOf(err: unknown, events: IngestEvent[]): IngestEvent[] {
+  return (err instanceof Error && unsentEvents.get(err)) || events;
+}
+
+function isFailure(events: IngestEvent[]): boolean {
+  const type = events[events.length - 1]?.type;
+  return type === 'job.failed' || type === 'job.timeout';
 }
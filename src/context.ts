@@ -0,0 +1,50 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { Job } from './job.js';
+import type { EventOptions } from './types.js';
+
+const storage = new AsyncLocalStorage<Job>();
+
+/**
+ * The job bound to the current async context, if any.
+ * Jobs are bound by clients created with asyncContext: true.
+ */
+export function currentJob(): Job | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Record an event on the current job. Does nothing outside a job.
+ */
+export function event(message: string): void;
+export function event(options: EventOptions): void;
+export function event(messageOrOptions: string | EventOptions): void {
+  const job = currentJob();
+  if (!job) return;
+
+  if (typeof messageOrOptions === 'string') {
+    job.event(messageOrOptions);
+  } else {
+    job.event(messageOrOptions);
+  }
+}
+
+/**
+ * Run fn with the job bound to its async context.
+ */
+export function runWithJob<T>(job: Job, fn: () => T): T {
+  return storage.run(job, fn);
+}
+
+/**
+ * Wrap an async generator so each step runs with the job bound to its async context.
+ * A generator body otherwise runs in the context of whoever calls next().
+ */
+export function bindGenerator<Y, R, N>(job: Job, generator: AsyncGenerator<Y, R, N>): AsyncGenerator<Y, R, N> {
+  const bound: AsyncGenerator<Y, R, N> = {
+    next: (...args) => runWithJob(job, () => generator.next(...args)),
+    return: value => runWithJob(job, () => generator.return(value)),
+    throw: err => runWithJob(job, () => generator.throw(err)),
+    [Symbol.asyncIterator]: () => bound,
+  };
+  return bound;
+}
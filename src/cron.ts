@@ -0,0 +1,137 @@
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+// Long enough for any valid schedule, including Feb 29 on a given weekday
+const MAX_SEARCH_YEARS = 28;
+
+interface Field {
+  values: Set<number>;
+  /** Whether the field starts with '*', which matters for day-of-month/day-of-week matching */
+  wildcard: boolean;
+}
+
+/**
+ * A parsed five-field cron expression: minute, hour, day of month, month and day of week.
+ *
+ * Supports '*', lists, ranges, steps, month and day names, and @hourly-style macros.
+ * Times are evaluated in UTC. As in standard cron, when both day fields are restricted,
+ * a day matching either one is a match.
+ */
+export class CronSchedule {
+  readonly expression: string;
+  private readonly _minutes: Field;
+  private readonly _hours: Field;
+  private readonly _daysOfMonth: Field;
+  private readonly _months: Field;
+  private readonly _daysOfWeek: Field;
+
+  constructor(expression: string) {
+    const fields = (MACROS[expression.trim().toLowerCase()] ?? expression).trim().split(/\s+/);
+    if (fields.length !== 5) {
+      throw new Error(`Synquer: invalid cron expression '${expression}', expected 5 fields`);
+    }
+
+    this.expression = expression;
+    this._minutes = parseField(fields[0]!, 0, 59, expression);
+    this._hours = parseField(fields[1]!, 0, 23, expression);
+    this._daysOfMonth = parseField(fields[2]!, 1, 31, expression);
+    this._months = parseField(fields[3]!, 1, 12, expression, MONTH_NAMES);
+    // 7 is an alias for Sunday
+    this._daysOfWeek = parseField(fields[4]!, 0, 7, expression, DAY_NAMES);
+    if (this._daysOfWeek.values.delete(7)) this._daysOfWeek.values.add(0);
+  }
+
+  /**
+   * The first scheduled time strictly after the given date.
+   */
+  next(after: Date = new Date()): Date {
+    const date = new Date(after.getTime());
+    date.setUTCSeconds(0, 0);
+    date.setUTCMinutes(date.getUTCMinutes() + 1);
+
+    const limit = after.getUTCFullYear() + MAX_SEARCH_YEARS;
+    while (date.getUTCFullYear() <= limit) {
+      if (!this._months.values.has(date.getUTCMonth() + 1)) {
+        date.setUTCMonth(date.getUTCMonth() + 1, 1);
+        date.setUTCHours(0, 0);
+        continue;
+      }
+      if (!this._matchesDay(date)) {
+        date.setUTCDate(date.getUTCDate() + 1);
+        date.setUTCHours(0, 0);
+        continue;
+      }
+      if (!this._hours.values.has(date.getUTCHours())) {
+        date.setUTCHours(date.getUTCHours() + 1, 0);
+        continue;
+      }
+      if (!this._minutes.values.has(date.getUTCMinutes())) {
+        date.setUTCMinutes(date.getUTCMinutes() + 1);
+        continue;
+      }
+      return date;
+    }
+
+    throw new Error(`Synquer: cron expression '${this.expression}' never runs`);
+  }
+
+  private _matchesDay(date: Date): boolean {
+    const dayOfMonth = this._daysOfMonth.values.has(date.getUTCDate());
+    const dayOfWeek = this._daysOfWeek.values.has(date.getUTCDay());
+
+    if (this._daysOfMonth.wildcard || this._daysOfWeek.wildcard) {
+      return dayOfMonth && dayOfWeek;
+    }
+    return dayOfMonth || dayOfWeek;
+  }
+}
+
+function parseField(field: string, min: number, max: number, expression: string, names?: string[]): Field {
+  const values = new Set<number>();
+  const invalid = () => new Error(`Synquer: invalid cron field '${field}' in '${expression}'`);
+
+  const parseValue = (value: string): number => {
+    const index = names?.indexOf(value.toLowerCase()) ?? -1;
+    const number = index !== -1 ? index + (min === 1 ? 1 : 0) : Number(value);
+    if (!/^\w+$/.test(value) || !Number.isInteger(number) || number < min || number > max) throw invalid();
+    return number;
+  };
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!range || !Number.isInteger(step) || step < 1) throw invalid();
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = min;
+      end = max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseValue(from ?? '');
+      end = parseValue(to ?? '');
+      if (start > end) throw invalid();
+    } else {
+      start = parseValue(range);
+      // A single value with a step runs from that value to the end of the range
+      end = stepText === undefined ? start : max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return { values, wildcard: field.startsWith('*') };
+}
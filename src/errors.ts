@@ -0,0 +1,182 @@
+import type { ErrorExtractor } from './types.js';
+
+const MAX_DEPTH = 5;
+
+/** Properties of HTTP client errors that hold request/response objects rather than data */
+const HTTP_OBJECT_KEYS = new Set(['config', 'request', 'response', 'options']);
+
+/**
+ * Serialize an error into plain data for job.failed.
+ *
+ * Walks cause chains and AggregateError.errors, keeps name, code and other own
+ * enumerable properties, and extracts status, method and URL from common HTTP
+ * client errors (axios, fetch wrappers, got). Circular references become '[Circular]'.
+ * Extractors can add fields for custom error classes.
+ */
+export function serializeError(error: unknown, extractors: ErrorExtractor[] = []): Record<string, unknown> {
+  if (typeof error === 'string') return { message: error };
+  if (!(error instanceof Error)) return { message: String(error) };
+
+  return serializeErrorObject(error, extractors, new WeakSet(), 0);
+}
+
+function serializeErrorObject(
+  error: Error,
+  extractors: ErrorExtractor[],
+  seen: WeakSet<object>,
+  depth: number,
+): Record<string, unknown> {
+  seen.add(error);
+
+  const result: Record<string, unknown> = {
+    name: error.name,
+    message: error.message,
+    stack: error.stack,
+  };
+
+  const http = extractHttp(error);
+  if (http) result.http = http;
+
+  // Request/response objects hold headers (e.g. Authorization) and socket internals, even without a status
+  const skipHttpObjects = http !== undefined || isHttpClientError(error);
+
+  for (const [key, value] of Object.entries(error)) {
+    if (key === 'cause' || key === 'errors') continue;
+    if (skipHttpObjects && HTTP_OBJECT_KEYS.has(key)) continue;
+    const serialized = toSerializable(value, extractors, seen, depth + 1);
+    if (serialized !== undefined) result[key] = serialized;
+  }
+
+  if (error.cause !== undefined) {
+    result.cause = toSerializable(error.cause, extractors, seen, depth + 1);
+  }
+
+  // AggregateError and look-alikes
+  const errors = (error as { errors?: unknown }).errors;
+  if (Array.isArray(errors)) {
+    result.errors = errors.map(item => toSerializable(item, extractors, seen, depth + 1));
+  }
+
+  for (const extractor of extractors) {
+    try {
+      Object.assign(result, extractor(error));
+    } catch {
+      // A broken extractor should not lose the rest of the error
+    }
+  }
+
+  seen.delete(error);
+  return result;
+}
+
+function toSerializable(
+  value: unknown,
+  extractors: ErrorExtractor[],
+  seen: WeakSet<object>,
+  depth: number,
+): unknown {
+  if (typeof value === 'function' || typeof value === 'symbol') return undefined;
+  if (typeof value === 'bigint') return value.toString();
+  if (typeof value !== 'object' || value === null) return value;
+
+  if (seen.has(value)) return '[Circular]';
+  if (depth > MAX_DEPTH) return '[Truncated]';
+
+  if (value instanceof Error) {
+    return serializeErrorObject(value, extractors, seen, depth);
+  }
+
+  if (typeof (value as { toJSON?: unknown }).toJSON === 'function') {
+    return (value as { toJSON: () => unknown }).toJSON();
+  }
+
+  seen.add(value);
+
+  let result: unknown;
+  if (Array.isArray(value)) {
+    result = value.map(item => toSerializable(item, extractors, seen, depth + 1));
+  } else {
+    const copy: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(value)) {
+      const serialized = toSerializable(child, extractors, seen, depth + 1);
+      if (serialized !== undefined) copy[key] = serialized;
+    }
+    result = copy;
+  }
+
+  seen.delete(value);
+  return result;
+}
+
+/**
+ * Pull status, method, URL and response body out of common HTTP client error shapes.
+ * Network errors have no response: only the method and URL of the request are kept.
+ */
+function extractHttp(error: Error): Record<string, unknown> | undefined {
+  const source = error as unknown as Record<string, unknown>;
+  const response = asRecord(source.response);
+  const request = asRecord(source.config) ?? asRecord(source.options) ?? asRecord(source.request);
+
+  const status = asNumber(response?.status) ?? asNumber(response?.statusCode)
+    ?? asNumber(source.status) ?? asNumber(source.statusCode);
+
+  if (status === undefined) {
+    if (!isHttpClientError(error)) return undefined;
+
+    const method = asString(request?.method);
+    const url = asString(request?.url);
+    if (!method && !url) return undefined;
+
+    return {
+      ...(method && { method: method.toUpperCase() }),
+      ...(url && { url }),
+    };
+  }
+
+  const method = asString(request?.method) ?? asString(source.method);
+  const url = asString(request?.url) ?? asString(response?.url) ?? asString(source.url);
+  const statusText = asString(response?.statusText) ?? asString(response?.statusMessage);
+  const body = response?.data ?? source.data ?? plainBody(response?.body);
+
+  return {
+    status,
+    ...(method && { method: method.toUpperCase() }),
+    ...(url && { url }),
+    ...(statusText && { statusText }),
+    ...(body !== undefined && { body: toSerializable(body, [], new WeakSet(), 1) }),
+  };
+}
+
+/**
+ * Whether an error comes from an HTTP client such as axios or got, with or without a response.
+ */
+function isHttpClientError(error: Error): boolean {
+  const source = error as unknown as Record<string, unknown>;
+  return source.isAxiosError === true
+    || asRecord(source.config) !== undefined
+    || asRecord(source.request) !== undefined
+    || asRecord(source.response) !== undefined;
+}
+
+function asRecord(value: unknown): Record<string, unknown> | undefined {
+  return typeof value === 'object' && value !== null ? value as Record<string, unknown> : undefined;
+}
+
+function asNumber(value: unknown): number | undefined {
+  return typeof value === 'number' ? value : undefined;
+}
+
+function asString(value: unknown): string | undefined {
+  if (typeof value === 'string') return value;
+  if (value instanceof URL) return value.href;
+  return undefined;
+}
+
+/**
+ * Response bodies are only kept when already read into a string or plain object, never streams.
+ */
+function plainBody(body: unknown): unknown {
+  if (typeof body === 'string') return body;
+  if (typeof body === 'object' && body !== null && Object.getPrototypeOf(body) === Object.prototype) return body;
+  return undefined;
+}
@@ -1,11 +1,52 @@
 export { Synquer } from './client.js';
 export { Job } from './job.js';
+export { JobItem } from './item.js';
+export { Monitor } from './monitor.js';
+export { CronSchedule } from './cron.js';
+export { currentJob, event } from './context.js';
+export { captureConsole, createPinoDestination, SynquerWinstonTransport } from './logs.js';
+export type { LogCaptureOptions } from './logs.js';
+export { FileQueueStorage } from './storage.js';
+export type { FileQueueStorageOptions } from './storage.js';
+export { REDACT_PATTERNS } from './redact.js';
+export { serializeError } from './errors.js';
+export { OpenTelemetryBridge } from './otel.js';
+export type { OpenTelemetryBridgeOptions, OtelApi, OtelSpan, OtelSpanContext, OtelTracer } from './otel.js';
+export { HttpTransport, InMemoryTransport, NdjsonTransport, TransportError } from './transport.js';
+export type { HttpTransportOptions, InMemoryTransportOptions, NdjsonTransportOptions } from './transport.js';
 export type {
   SynquerOptions,
   JobOptions,
   EventOptions,
+  EventLevel,
+  RetryingOptions,
+  AttemptOptions,
+  ItemCounts,
+  ItemOutcome,
+  ItemStatus,
+  MonitorOptions,
   IngestEvent,
   BatchResponse,
+  RejectedEvent,
+  JobStatus,
+  DropReason,
+  RetryPolicy,
+  CircuitState,
+  CircuitBreakerOptions,
+  SynquerStats,
+  SynquerLogger,
+  ShutdownOptions,
+  ShutdownResult,
+  SamplingRule,
+  RedactionOptions,
+  Redactor,
+  ErrorExtractor,
+  SynquerPlugin,
+  QueueStorage,
+  QueuedEvent,
+  Transport,
+  TrackOptions,
+  TrackDecorator,
 } from './types.js';
 
 export const VERSION = '0.0.1';
@@ -0,0 +1,62 @@
+import type { ItemStatus, JobOptions } from './types.js';
+
+/**
+ * Outcome details reported by a JobItem when it ends.
+ */
+export interface ItemEnd {
+  status: ItemStatus;
+  durationMs: number;
+  error?: unknown;
+  reason?: string;
+}
+
+/**
+ * One entity handled within a bulk job, created with job.item(entity).
+ *
+ * Records its own outcome and duration on the job. Only the first outcome counts.
+ */
+export class JobItem {
+  readonly entity: NonNullable<JobOptions['entity']>;
+  private readonly _startedAt = Date.now();
+  private readonly _onEnd: (end: ItemEnd) => void;
+  private _ended = false;
+
+  constructor(entity: NonNullable<JobOptions['entity']>, onEnd: (end: ItemEnd) => void) {
+    this.entity = entity;
+    this._onEnd = onEnd;
+  }
+
+  /**
+   * Mark the item as successfully handled.
+   */
+  done(): void {
+    this._end({ status: 'done' });
+  }
+
+  /**
+   * Mark the item as failed. The job itself keeps running.
+   */
+  failed(error: unknown): void {
+    this._end({ status: 'failed', error });
+  }
+
+  /**
+   * Mark the item as skipped.
+   */
+  skipped(reason?: string): void {
+    this._end({ status: 'skipped', ...(reason !== undefined && { reason }) });
+  }
+
+  /**
+   * Whether the item has recorded its outcome.
+   */
+  get ended(): boolean {
+    return this._ended;
+  }
+
+  private _end(end: Omit<ItemEnd, 'durationMs'>): void {
+    if (this._ended) return;
+    this._ended = true;
+    this._onEnd({ ...end, durationMs: Date.now() - this._startedAt });
+  }
+}
@@ -1,4 +1,72 @@
-import type { JobOptions, EventOptions, IngestEvent } from './types.js';
+import { serializeError } from './errors.js';
+import { JobItem } from './item.js';
+import { ignoreErrors } from './util.js';
+import type { ItemEnd } from './item.js';
+import type {
+  JobOptions,
+  EventOptions,
+  EventLevel,
+  IngestEvent,
+  JobStatus,
+  ErrorExtractor,
+  SynquerPlugin,
+  RetryingOptions,
+  AttemptOptions,
+  ItemCounts,
+  ItemOutcome,
+  ItemStatus,
+} from './types.js';
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_MAX_ITEMS = 1000;
+
+const LEVEL_ORDER: Record<EventLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+/**
+ * Internal wiring passed when creating a job.
+ */
+export interface JobContext {
+  /** Parent job, when created through job.child() */
+  parent?: Job;
+
+  /** Events below this level are dropped */
+  minLevel?: EventLevel;
+
+  /** Whether the job was kept by sampling. Default: true */
+  sampled?: boolean;
+
+  /** Max time a completing job waits for open children before abandoning them. Default: no limit */
+  childTimeoutMs?: number;
+
+  /** Extractors for custom error classes in failed() */
+  errorExtractors?: ErrorExtractor[];
+
+  /** Applied to every event as it is recorded, before plugins see it */
+  redact?: (event: IngestEvent) => IngestEvent;
+
+  /** Continue a job started elsewhere: record job.resumed instead of job.started */
+  resumed?: boolean;
+
+  /** Extra fields for the started event, e.g. monitor details */
+  startData?: Record<string, unknown>;
+
+  /** Reports invalid values passed to telemetry calls, which are fixed up or ignored rather than thrown */
+  onInvalid?: (error: Error) => void;
+
+  /** Lifecycle hooks notified of every recorded event */
+  plugins?: SynquerPlugin[];
+
+  /** Called when the job is created */
+  onStart?: (job: Job) => void;
+
+  /** Called once the job has recorded its terminal event */
+  onFinish?: (job: Job) => void;
+}
 
 /**
  * Represents a single sync job being tracked.
@@ -9,32 +77,80 @@ import type { JobOptions, EventOptions, IngestEvent } from './types.js';
  */
 export class Job {
   readonly id: string;
+  readonly parentJobId?: string;
+  /** Correlation key carried by every event, used by the API to stitch jobs across processes */
+  readonly externalId?: string;
   private readonly _events: IngestEvent[] = [];
   private readonly _sendFn: (events: IngestEvent[]) => Promise<void>;
+  private readonly _context: JobContext;
+  private readonly _children: Job[] = [];
+  private readonly _finished: Promise<void>;
+  private _resolveFinished!: () => void;
   private _completed = false;
+  private _completion?: Promise<void>;
+  private _status?: JobStatus;
+  private _durationMs?: number;
+  private _attempts = 0;
+  /** Number of events already handed to sendFn */
+  private _sent = 0;
+  private readonly _counters = new Map<string, number>();
+  private readonly _gauges = new Map<string, number>();
+  private _items?: Required<Omit<ItemCounts, 'total'>> & Pick<ItemCounts, 'total'>;
+  private readonly _maxItems: number;
+  private _outcomes?: {
+    count: number;
+    statuses: Partial<Record<ItemStatus, number>>;
+    items: ItemOutcome[];
+    omitted: number;
+  };
 
   constructor(
     id: string,
     options: JobOptions,
     sendFn: (events: IngestEvent[]) => Promise<void>,
+    context: JobContext = {},
   ) {
     this.id = id;
+    this.parentJobId = context.parent?.id;
+    this.externalId = options.externalId;
     this._sendFn = sendFn;
+    this._context = context;
+    this._maxItems = options.maxItems ?? DEFAULT_MAX_ITEMS;
+    this._finished = new Promise(resolve => {
+      this._resolveFinished = resolve;
+    });
 
-    // Add the started event immediately
-    this._events.push({
-      jobId: this.id,
-      externalId: options.externalId,
-      type: 'job.started',
-      timestamp: Date.now(),
-      data: {
-        jobType: options.type,
-        ...(options.entity?.type && { entityType: options.entity.type }),
-        ...(options.entity?.id && { entityId: options.entity.id }),
-        ...(options.entity?.ref && { entityRef: options.entity.ref }),
-        ...(options.metadata && Object.keys(options.metadata).length > 0 && { metadata: options.metadata }),
-      },
+    // Add the started (or resumed) event immediately
+    this._record(context.resumed ? 'job.resumed' : 'job.started', {
+      ...(options.type && { jobType: options.type }),
+      ...(options.entity?.type && { entityType: options.entity.type }),
+      ...(options.entity?.id && { entityId: options.entity.id }),
+      ...(options.entity?.ref && { entityRef: options.entity.ref }),
+      ...(options.metadata && Object.keys(options.metadata).length > 0 && { metadata: options.metadata }),
+      ...context.startData,
     });
+
+    context.onStart?.(this);
+  }
+
+  /**
+   * Create a child job linked to this one.
+   *
+   * The parent does not complete until its children have completed, or until childTimeoutMs
+   * runs out and the children still open are ended as abandoned. Its terminal event rolls up
+   * the children's statuses and durations.
+   */
+  child(options: JobOptions): Job {
+    const child = new Job(crypto.randomUUID(), options, this._sendFn, {
+      ...this._context,
+      parent: this,
+      resumed: false,
+      startData: undefined,
+    });
+    if (!this._completed) {
+      this._children.push(child);
+    }
+    return child;
   }
 
   /**
@@ -49,107 +165,244 @@ export class Job {
       ? { message: messageOrOptions }
       : messageOrOptions;
 
-    this._events.push({
-      jobId: this.id,
-      type: 'job.event',
-      timestamp: Date.now(),
-      data: {
-        ...(opts.message && { message: opts.message }),
-        ...opts.data,
-      },
+    const progress = opts.progress !== undefined ? this._checkProgress(opts.progress, 100) : undefined;
+
+    const minLevel = this._context.minLevel;
+    if (minLevel && LEVEL_ORDER[opts.level ?? 'info'] < LEVEL_ORDER[minLevel]) return;
+
+    this._record('job.event', {
+      ...(opts.message && { message: opts.message }),
+      ...(opts.level && { level: opts.level }),
+      ...(progress !== undefined && { progress }),
+      ...(opts.code && { code: opts.code }),
+      ...opts.data,
     });
   }
 
   /**
-   * Mark the job as successfully completed.
+   * Log a debug event.
    */
-  async done(result?: unknown): Promise<void> {
-    if (this._completed) return;
-    this._completed = true;
+  debug(message: string, data?: Record<string, unknown>): void {
+    this.event({ message, level: 'debug', data });
+  }
 
-    const startTs = this._events[0]?.timestamp ?? Date.now();
-    const now = Date.now();
+  /**
+   * Log an info event.
+   */
+  info(message: string, data?: Record<string, unknown>): void {
+    this.event({ message, level: 'info', data });
+  }
 
-    this._events.push({
-      jobId: this.id,
-      type: 'job.done',
-      timestamp: now,
-      data: {
-        ...(result !== undefined && { result }),
-        durationMs: now - startTs,
-      },
-    });
+  /**
+   * Log a warning event.
+   */
+  warn(message: string, data?: Record<string, unknown>): void {
+    this.event({ message, level: 'warn', data });
+  }
 
-    await this._sendFn(this._events);
+  /**
+   * Log an error event. Does not fail the job.
+   */
+  error(message: string, data?: Record<string, unknown>): void {
+    this.event({ message, level: 'error', data });
   }
 
   /**
-   * Mark the job as failed.
+   * Report progress, either as a percentage or as current out of total.
    */
-  async failed(error: unknown): Promise<void> {
-    if (this._completed) return;
-    this._completed = true;
+  progress(current: number, total?: number): void {
+    if (total === undefined) {
+      this.event({ progress: current });
+      return;
+    }
 
-    const startTs = this._events[0]?.timestamp ?? Date.now();
-    const now = Date.now();
+    if (!Number.isFinite(total) || total <= 0) {
+      this._reportInvalid(`progress total must be a positive number, got ${total}`);
+      return;
+    }
 
-    let errorData: Record<string, unknown>;
-    if (error instanceof Error) {
-      errorData = {
-        message: error.message,
-        stack: error.stack,
-      };
-    } else if (typeof error === 'string') {
-      errorData = { message: error };
-    } else {
-      errorData = { message: String(error) };
+    const checked = this._checkProgress(current, total);
+    if (checked === undefined) return;
+    this.event({ progress: (checked / total) * 100, data: { current, total } });
+  }
+
+  /**
+   * Add n to a counter. Counters are summed locally and sent in the terminal event.
+   */
+  count(name: string, n = 1): void {
+    if (this._completed || !this._checkMetric(name, n)) return;
+    this._counters.set(name, (this._counters.get(name) ?? 0) + n);
+  }
+
+  /**
+   * Set a gauge. The last value is sent in the terminal event.
+   */
+  gauge(name: string, value: number): void {
+    if (this._completed || !this._checkMetric(name, value)) return;
+    this._gauges.set(name, value);
+  }
+
+  /**
+   * Report item throughput, e.g. after each page of a batch sync.
+   * total replaces the previous value; processed, failed and skipped add up.
+   * Invalid counts are ignored and reported.
+   */
+  items(counts: ItemCounts): void {
+    if (this._completed) return;
+
+    counts = { ...counts };
+    for (const [key, value] of Object.entries(counts) as [keyof ItemCounts, number | undefined][]) {
+      if (value !== undefined && (!Number.isFinite(value) || value < 0)) {
+        this._reportInvalid(`item count '${key}' must be a non-negative number, got ${value}`);
+        delete counts[key];
+      }
     }
 
-    this._events.push({
-      jobId: this.id,
-      type: 'job.failed',
-      timestamp: now,
-      data: {
-        error: errorData,
-        durationMs: now - startTs,
-      },
-    });
+    const items = this._items ??= { processed: 0, failed: 0, skipped: 0 };
+    if (counts.total !== undefined) items.total = counts.total;
+    items.processed += counts.processed ?? 0;
+    items.failed += counts.failed ?? 0;
+    items.skipped += counts.skipped ?? 0;
+  }
 
-    await this._sendFn(this._events);
+  /**
+   * Track one entity of a bulk job. Its outcome and duration are listed in the job's
+   * terminal event, with a per-status breakdown across all items.
+   */
+  item(entity: NonNullable<JobOptions['entity']>): JobItem {
+    return new JobItem(entity, end => this._recordItem(entity, end));
   }
 
   /**
-   * Mark the job as skipped.
+   * Record a failed attempt that is about to be retried.
+   * The job stays open: complete it once the last attempt ends.
    */
-  async skip(reason: string): Promise<void> {
+  retrying(error: unknown, options: RetryingOptions): void {
     if (this._completed) return;
-    this._completed = true;
+    this._attempts = Math.max(this._attempts, options.attempt);
 
-    this._events.push({
-      jobId: this.id,
-      type: 'job.skipped',
-      timestamp: Date.now(),
-      data: { message: reason },
+    this._record('job.retry', {
+      attempt: options.attempt,
+      ...(options.delayMs !== undefined && { delayMs: options.delayMs }),
+      error: serializeError(error, this._context.errorExtractors),
     });
+  }
 
-    await this._sendFn(this._events);
+  /**
+   * Run fn, retrying failures up to maxAttempts with a job.retry event per failed attempt.
+   *
+   * Resolves with the first successful result, or rejects with the last error.
+   * Does not complete the job: the number of attempts is included in its terminal event.
+   */
+  async attempt<T>(fn: (attempt: number) => T | Promise<T>, options: AttemptOptions = {}): Promise<T> {
+    const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+
+    for (let attempt = 1; ; attempt++) {
+      this._attempts = Math.max(this._attempts, attempt);
+
+      try {
+        return await fn(attempt);
+      } catch (err) {
+        if (attempt >= maxAttempts || options.shouldRetry?.(err, attempt) === false) {
+          throw err;
+        }
+
+        const delayMs = typeof options.delayMs === 'function'
+          ? options.delayMs(attempt, err)
+          : options.delayMs ?? 0;
+
+        this.retrying(err, { attempt, delayMs });
+
+        if (delayMs > 0) {
+          await new Promise(resolve => setTimeout(resolve, delayMs));
+        }
+      }
+    }
+  }
+
+  /**
+   * Mark the job as successfully completed.
+   */
+  async done(result?: unknown): Promise<void> {
+    await this._complete('done', () => ({
+      ...(result !== undefined && { result }),
+    }));
+  }
+
+  /**
+   * Mark the job as failed.
+   * Errors are serialized with their cause chain, code, HTTP details and custom fields.
+   */
+  async failed(error: unknown): Promise<void> {
+    await this._complete('failed', () => ({
+      error: serializeError(error, this._context.errorExtractors),
+    }));
+  }
+
+  /**
+   * Mark the job as skipped.
+   */
+  async skip(reason: string): Promise<void> {
+    await this._complete('skipped', () => ({ message: reason }), { withDuration: false });
   }
 
   /**
    * Mark the job for manual review.
    */
   async review(reason: string): Promise<void> {
+    await this._complete('review', () => ({ message: reason }), { withDuration: false });
+  }
+
+  /**
+   * Hand the events recorded so far to the client without completing the job,
+   * so a long-running job shows up before it ends. They are not sent again on completion.
+   */
+  async flush(): Promise<void> {
+    if (this._completed) return;
+    await this._sendPending({ partial: true });
+  }
+
+  /**
+   * Record a job.heartbeat event and send it right away with any events recorded before it,
+   * so the platform can tell a long-running job from a hung one.
+   */
+  async heartbeat(data: Record<string, unknown> = {}): Promise<void> {
     if (this._completed) return;
+    this._record('job.heartbeat', data);
+    await this._sendPending({ partial: true });
+  }
+
+  /**
+   * Send the collected events without completing the job, so another process can
+   * continue it with synquer.resume(externalId). Later calls on this handle are ignored.
+   */
+  async handoff(): Promise<void> {
+    if (this._completed) return;
+    if (!this.externalId) {
+      throw new Error('Synquer: externalId is required to hand off a job');
+    }
     this._completed = true;
 
-    this._events.push({
-      jobId: this.id,
-      type: 'job.review',
-      timestamp: Date.now(),
-      data: { message: reason },
-    });
+    this._resolveFinished();
+    this._context.onFinish?.(this);
+    this._notifyPlugins(plugin => plugin.onJobEnd?.(this, undefined));
+    this._completion = this._sendPending();
+    await this._completion;
+  }
 
-    await this._sendFn(this._events);
+  /**
+   * End a job that was never completed, sending its collected events with a job.timeout event.
+   * Leaves open children running. If the job is already completing, waits for that instead.
+   *
+   * @internal Called by the client for jobs that exceed jobTimeoutMs or are still open on shutdown.
+   */
+  expire(reason: 'timeout' | 'abandoned', timeoutMs?: number): Promise<void> {
+    if (this._completed) return this._completion ?? Promise.resolve();
+
+    return this._complete('timeout', () => ({
+      reason,
+      ...(timeoutMs !== undefined && { timeoutMs }),
+    }), { endChildren: false });
   }
 
   /**
@@ -165,4 +418,243 @@ export class Job {
   get completed(): boolean {
     return this._completed;
   }
+
+  /**
+   * Whether the job was kept by sampling. Sampled-out jobs are only sent if they fail.
+   */
+  get sampled(): boolean {
+    return this._context.sampled ?? true;
+  }
+
+  /**
+   * Terminal status, once the job has finished.
+   */
+  get status(): JobStatus | undefined {
+    return this._status;
+  }
+
+  /**
+   * Mark the job completed and finish it, once.
+   */
+  private _complete(
+    status: JobStatus,
+    buildData: () => Record<string, unknown>,
+    options: { withDuration?: boolean; endChildren?: boolean } = {},
+  ): Promise<void> {
+    if (this._completed) return Promise.resolve();
+    this._completed = true;
+
+    this._completion = this._finish(status, buildData, options.withDuration ?? true, options.endChildren ?? true);
+    return this._completion;
+  }
+
+  /**
+   * Wait for open children, then record the terminal event and send the job's events.
+   */
+  private async _finish(
+    status: JobStatus,
+    buildData: () => Record<string, unknown>,
+    withDuration: boolean,
+    endChildren: boolean,
+  ): Promise<void> {
+    if (endChildren && this._children.length > 0) {
+      await this._waitForChildren();
+    }
+
+    const startTs = this._events[0]?.timestamp ?? Date.now();
+    const now = Date.now();
+    this._status = status;
+    this._durationMs = now - startTs;
+
+    const children = this._rollupChildren();
+    const metrics = this._summarizeMetrics();
+    const outcomes = this._outcomes && {
+      count: this._outcomes.count,
+      statuses: this._outcomes.statuses,
+      items: this._outcomes.items,
+      ...(this._outcomes.omitted > 0 && { omitted: this._outcomes.omitted }),
+    };
+
+    // A resumed job's true start lives in another process, so its local duration is not reported
+    this._record(`job.${status}`, {
+      ...buildData(),
+      ...(withDuration && !this._context.resumed && { durationMs: this._durationMs }),
+      ...(this._attempts > 0 && { attempts: this._attempts }),
+      ...(children && { children }),
+      ...(metrics && { metrics }),
+      ...(outcomes && { outcomes }),
+    }, now);
+
+    this._resolveFinished();
+    this._context.onFinish?.(this);
+    await this._sendPending();
+  }
+
+  /**
+   * Wait for the children to finish, up to childTimeoutMs. A forgotten child must not
+   * hold its parent up for good, so children still open after that are abandoned.
+   */
+  private async _waitForChildren(): Promise<void> {
+    const finished = Promise.all(this._children.map(child => child._finished));
+    const timeoutMs = this._context.childTimeoutMs;
+
+    if (timeoutMs === undefined) {
+      await finished;
+      return;
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    try {
+      await Promise.race([finished, new Promise(resolve => {
+        timer = setTimeout(resolve, timeoutMs);
+      })]);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    await Promise.all(this._children.map(child => child.expire('abandoned')));
+  }
+
+  /**
+   * Send the events not handed to sendFn yet.
+   * Sampled-out jobs hold partial sends back, so a failure still sends their full history.
+   */
+  private _sendPending(options: { partial?: boolean } = {}): Promise<void> {
+    if (options.partial && !this.sampled) return Promise.resolve();
+
+    const events = this._events.slice(this._sent);
+    this._sent = this._events.length;
+    return events.length > 0 ? this._sendFn(events) : Promise.resolve();
+  }
+
+  /**
+   * Append an event with the job's correlation fields, redacted.
+   */
+  private _record(type: IngestEvent['type'], data: Record<string, unknown>, timestamp = Date.now()): void {
+    const recorded: IngestEvent = {
+      jobId: this.id,
+      ...(this.externalId && { externalId: this.externalId }),
+      ...(type === 'job.started' && this.parentJobId && { parentJobId: this.parentJobId }),
+      type,
+      timestamp,
+      data,
+    };
+    // Redact before plugins run, so exporters such as OpenTelemetry never see the raw data
+    const event = this._context.redact ? this._context.redact(recorded) : recorded;
+    this._events.push(event);
+
+    if (type === 'job.started' || type === 'job.resumed') {
+      this._notifyPlugins(plugin => plugin.onJobStart?.(this, event));
+    } else if (this._completed) {
+      this._notifyPlugins(plugin => plugin.onJobEnd?.(this, event));
+    } else {
+      this._notifyPlugins(plugin => plugin.onJobEvent?.(this, event));
+    }
+  }
+
+  private _notifyPlugins(notify: (plugin: SynquerPlugin) => void): void {
+    for (const plugin of this._context.plugins ?? []) {
+      ignoreErrors(() => notify(plugin));
+    }
+  }
+
+  /**
+   * Clamp progress to 0..max, or drop it when it is not a number. Invalid values are reported, not thrown.
+   */
+  private _checkProgress(progress: number, max: number): number | undefined {
+    if (Number.isFinite(progress) && progress >= 0 && progress <= max) return progress;
+
+    this._reportInvalid(`progress must be between 0 and ${max}, got ${progress}`);
+    return Number.isFinite(progress) ? Math.min(Math.max(progress, 0), max) : undefined;
+  }
+
+  /**
+   * Check a metric name and value, reporting it when invalid so the call can be ignored.
+   */
+  private _checkMetric(name: string, value: number): boolean {
+    if (!name) {
+      this._reportInvalid('metric name is required');
+      return false;
+    }
+    if (!Number.isFinite(value)) {
+      this._reportInvalid(`metric '${name}' must be a finite number, got ${value}`);
+      return false;
+    }
+    return true;
+  }
+
+  private _reportInvalid(message: string): void {
+    const onInvalid = this._context.onInvalid;
+    if (onInvalid) {
+      ignoreErrors(() => onInvalid(new RangeError(`Synquer: ${message}`)));
+    }
+  }
+
+  /**
+   * Count an item outcome and list it, up to maxItems. Once the list is full,
+   * a failed item replaces the oldest item that did not fail.
+   */
+  private _recordItem(entity: NonNullable<JobOptions['entity']>, end: ItemEnd): void {
+    if (this._completed) return;
+
+    const outcomes = this._outcomes ??= { count: 0, statuses: {}, items: [], omitted: 0 };
+    outcomes.count++;
+    outcomes.statuses[end.status] = (outcomes.statuses[end.status] ?? 0) + 1;
+
+    const outcome: ItemOutcome = {
+      entityType: entity.type,
+      entityId: entity.id,
+      ...(entity.ref && { entityRef: entity.ref }),
+      status: end.status,
+      durationMs: end.durationMs,
+      ...(end.status === 'failed' && { error: serializeError(end.error, this._context.errorExtractors) }),
+      ...(end.reason !== undefined && { reason: end.reason }),
+    };
+
+    if (outcomes.items.length < this._maxItems) {
+      outcomes.items.push(outcome);
+      return;
+    }
+
+    outcomes.omitted++;
+    if (end.status === 'failed') {
+      const index = outcomes.items.findIndex(item => item.status !== 'failed');
+      if (index !== -1) {
+        outcomes.items.splice(index, 1);
+        outcomes.items.push(outcome);
+      }
+    }
+  }
+
+  /**
+   * Collect counters, gauges and item throughput for the terminal event.
+   */
+  private _summarizeMetrics(): Record<string, unknown> | undefined {
+    if (this._counters.size === 0 && this._gauges.size === 0 && !this._items) return undefined;
+
+    return {
+      ...(this._counters.size > 0 && { counters: Object.fromEntries(this._counters) }),
+      ...(this._gauges.size > 0 && { gauges: Object.fromEntries(this._gauges) }),
+      ...(this._items && { items: { ...this._items } }),
+    };
+  }
+
+  /**
+   * Summarize child statuses and durations for the parent's terminal event.
+   */
+  private _rollupChildren(): Record<string, unknown> | undefined {
+    if (this._children.length === 0) return undefined;
+
+    const statuses: Partial<Record<JobStatus, number>> = {};
+    let durationMs = 0;
+
+    for (const child of this._children) {
+      if (child._status) {
+        statuses[child._status] = (statuses[child._status] ?? 0) + 1;
+      }
+      durationMs += child._durationMs ?? 0;
+    }
+
+    return { count: this._children.length, statuses, durationMs };
+  }
 }
@@ -0,0 +1,159 @@
+import { Writable } from 'node:stream';
+import { format } from 'node:util';
+import { currentJob } from './context.js';
+import { ignoreErrors } from './util.js';
+import type { Job } from './job.js';
+import type { EventLevel } from './types.js';
+
+// Fields pino adds to every record, not part of the structured data
+const PINO_RESERVED_KEYS = new Set(['level', 'time', 'msg', 'pid', 'hostname', 'v']);
+
+// Winston keeps the raw level here, before formats such as colorize change info.level
+const WINSTON_LEVEL = Symbol.for('level');
+
+const CONSOLE_LEVELS = {
+  debug: 'debug',
+  trace: 'debug',
+  log: 'info',
+  info: 'info',
+  warn: 'warn',
+  error: 'error',
+} as const satisfies Record<string, EventLevel>;
+
+/**
+ * Options shared by the log capture adapters.
+ */
+export interface LogCaptureOptions {
+  /** The job to record log entries on. Default: the job bound to the current async context */
+  getJob?: () => Job | undefined;
+}
+
+/**
+ * A pino destination that records log lines on the current job.
+ *
+ * Use it next to the normal output with pino.multistream:
+ * `pino({}, pino.multistream([{ stream: process.stdout }, { stream: createPinoDestination() }]))`.
+ * Runs in the logging thread, so unlike pino transports it sees the current job.
+ */
+export function createPinoDestination(options: LogCaptureOptions = {}): { write(line: string): void } {
+  const getJob = options.getJob ?? currentJob;
+
+  return {
+    write(line: string): void {
+      const job = getJob();
+      if (!job || job.completed) return;
+
+      let record: Record<string, unknown>;
+      try {
+        record = JSON.parse(line) as Record<string, unknown>;
+      } catch {
+        return;
+      }
+
+      const data = Object.fromEntries(Object.entries(record).filter(([key]) => !PINO_RESERVED_KEYS.has(key)));
+      job.event({
+        message: typeof record.msg === 'string' ? record.msg : undefined,
+        level: pinoLevel(record.level),
+        ...(Object.keys(data).length > 0 && { data }),
+      });
+    },
+  };
+}
+
+/**
+ * A winston transport that records log entries on the current job.
+ * Add it next to the existing transports: `logger.add(new SynquerWinstonTransport())`.
+ */
+export class SynquerWinstonTransport extends Writable {
+  private readonly _getJob: () => Job | undefined;
+
+  constructor(options: LogCaptureOptions = {}) {
+    super({ objectMode: true });
+    this._getJob = options.getJob ?? currentJob;
+  }
+
+  /**
+   * Record one winston info object. Called by winston through the stream.
+   */
+  log(info: Record<string | symbol, unknown>, callback: () => void): void {
+    const job = this._getJob();
+    if (job && !job.completed) {
+      // Object.entries skips winston's symbol keys
+      const data = Object.fromEntries(Object.entries(info).filter(([key]) => key !== 'level' && key !== 'message'));
+
+      job.event({
+        message: typeof info.message === 'string' ? info.message : undefined,
+        level: winstonLevel(info[WINSTON_LEVEL] ?? info.level),
+        ...(Object.keys(data).length > 0 && { data }),
+      });
+    }
+
+    callback();
+  }
+
+  override _write(info: Record<string | symbol, unknown>, _encoding: BufferEncoding, callback: () => void): void {
+    try {
+      this.log(info, callback);
+    } catch {
+      callback();
+    }
+  }
+}
+
+/**
+ * Also record console.debug/log/info/warn/error/trace calls on the current job.
+ * Output still goes to the console. Returns a function that restores the original methods.
+ */
+export function captureConsole(options: LogCaptureOptions = {}): () => void {
+  const getJob = options.getJob ?? currentJob;
+  const originals = new Map<keyof typeof CONSOLE_LEVELS, (...args: unknown[]) => void>();
+
+  for (const [method, level] of Object.entries(CONSOLE_LEVELS) as Array<[keyof typeof CONSOLE_LEVELS, EventLevel]>) {
+    const original = console[method];
+    originals.set(method, original);
+
+    console[method] = (...args: unknown[]): void => {
+      original.apply(console, args);
+
+      ignoreErrors(() => {
+        const job = getJob();
+        if (job && !job.completed) {
+          job.event({ message: format(...args), level });
+        }
+      });
+    };
+  }
+
+  return () => {
+    for (const [method, original] of originals) {
+      console[method] = original;
+    }
+  };
+}
+
+function pinoLevel(level: unknown): EventLevel {
+  const value = typeof level === 'number' ? level : 30;
+  if (value >= 50) return 'error';
+  if (value >= 40) return 'warn';
+  if (value >= 30) return 'info';
+  return 'debug';
+}
+
+function winstonLevel(level: unknown): EventLevel {
+  switch (level) {
+    case 'emerg':
+    case 'alert':
+    case 'crit':
+    case 'error':
+      return 'error';
+    case 'warn':
+    case 'warning':
+      return 'warn';
+    case 'notice':
+    case 'info':
+    case 'http':
+      return 'info';
+    default:
+      return 'debug';
+  }
+}
@@ -0,0 +1,85 @@
+import { CronSchedule } from './cron.js';
+import { ignoreRejection, unrefTimer } from './util.js';
+import type { Job } from './job.js';
+import type { MonitorOptions } from './types.js';
+
+const DEFAULT_HEARTBEAT_INTERVAL = 30_000;
+
+/**
+ * How a monitor creates and runs the job for each run. Provided by the client.
+ */
+export interface MonitorHooks {
+  createJob(startData: Record<string, unknown>): Job;
+  runJob<T>(job: Job, fn: (job: Job) => T | Promise<T>): Promise<T>;
+}
+
+/**
+ * A scheduled sync, created with synquer.monitor(name, options).
+ *
+ * Each run checks in when it starts and finishes, and sends job.heartbeat events while
+ * it is in progress. The expected next run is computed locally from the cron schedule
+ * and sent with the start check-in, so the platform can detect missed and hung runs.
+ */
+export class Monitor {
+  readonly name: string;
+  readonly schedule: CronSchedule;
+  private readonly _maxRuntimeMs?: number;
+  private readonly _heartbeatIntervalMs: number;
+  private readonly _hooks: MonitorHooks;
+
+  constructor(name: string, options: MonitorOptions, hooks: MonitorHooks) {
+    if (!name) {
+      throw new Error('Synquer: monitor name is required');
+    }
+
+    this.name = name;
+    this.schedule = new CronSchedule(options.schedule);
+    this._maxRuntimeMs = options.maxRuntimeMs;
+    this._heartbeatIntervalMs = options.heartbeatIntervalMs ?? DEFAULT_HEARTBEAT_INTERVAL;
+    this._hooks = hooks;
+  }
+
+  /**
+   * The next scheduled run after the given date.
+   */
+  nextRun(after: Date = new Date()): Date {
+    return this.schedule.next(after);
+  }
+
+  /**
+   * Run one scheduled execution inside a job of the monitor's name.
+   *
+   * The job is marked done with the result, or failed with the error before it is rethrown.
+   * Runs exceeding maxRuntimeMs are ended with a job.timeout event; fn keeps running.
+   */
+  async run<T>(fn: (job: Job) => T | Promise<T>): Promise<T> {
+    const job = this._hooks.createJob({
+      monitor: {
+        name: this.name,
+        schedule: this.schedule.expression,
+        nextRunAt: this.nextRun().getTime(),
+        ...(this._maxRuntimeMs !== undefined && { maxRuntimeMs: this._maxRuntimeMs }),
+      },
+    });
+
+    // Check in right away so the platform knows the run started
+    await job.flush();
+
+    const heartbeat = setInterval(() => ignoreRejection(job.heartbeat()), this._heartbeatIntervalMs);
+    unrefTimer(heartbeat);
+
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+    const maxRuntimeMs = this._maxRuntimeMs;
+    if (maxRuntimeMs !== undefined) {
+      timeout = setTimeout(() => ignoreRejection(job.expire('timeout', maxRuntimeMs)), maxRuntimeMs);
+      unrefTimer(timeout);
+    }
+
+    try {
+      return await this._hooks.runJob(job, fn);
+    } finally {
+      clearInterval(heartbeat);
+      clearTimeout(timeout);
+    }
+  }
+}
@@ -0,0 +1,174 @@
+import type { Job } from './job.js';
+import type { IngestEvent, SynquerPlugin } from './types.js';
+
+// SpanStatusCode values from @opentelemetry/api
+const STATUS_OK = 1;
+const STATUS_ERROR = 2;
+
+type OtelAttributes = Record<string, string | number | boolean>;
+
+/**
+ * The parts of an OpenTelemetry SpanContext the bridge reads.
+ */
+export interface OtelSpanContext {
+  traceId: string;
+  spanId: string;
+}
+
+/**
+ * The parts of an OpenTelemetry Span the bridge uses.
+ * Structural, so @opentelemetry/api is not a dependency.
+ */
+export interface OtelSpan {
+  spanContext(): OtelSpanContext;
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  addEvent(name: string, attributes?: OtelAttributes, time?: number): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: { name: string; message: string; stack?: string }, time?: number): unknown;
+  end(endTime?: number): void;
+}
+
+/**
+ * The parts of an OpenTelemetry Tracer the bridge uses.
+ */
+export interface OtelTracer {
+  startSpan(name: string, options?: { attributes?: OtelAttributes; startTime?: number }, context?: unknown): OtelSpan;
+}
+
+/**
+ * The `trace` and `context` objects from @opentelemetry/api.
+ */
+export interface OtelApi {
+  trace: {
+    getSpan(context: unknown): OtelSpan | undefined;
+    setSpan(context: unknown, span: OtelSpan): unknown;
+  };
+  context: {
+    active(): unknown;
+  };
+}
+
+/**
+ * Options for the OpenTelemetry bridge. Both are optional and can be combined.
+ */
+export interface OpenTelemetryBridgeOptions {
+  /** Export each job as a span, e.g. trace.getTracer('synquer') */
+  tracer?: OtelTracer;
+
+  /** Read the active trace context into job.started, and parent job spans under it */
+  api?: OtelApi;
+}
+
+/**
+ * Plugin linking Synquer jobs with OpenTelemetry traces.
+ *
+ * With a tracer, each job becomes a span: job events become span events, and failed or
+ * timed-out jobs set an error status. Child jobs become child spans. With the api, the
+ * active trace and span IDs are recorded on job.started so the platform can link to traces.
+ */
+export class OpenTelemetryBridge implements SynquerPlugin {
+  private readonly _tracer?: OtelTracer;
+  private readonly _api?: OtelApi;
+  private readonly _spans = new Map<string, OtelSpan>();
+
+  constructor(options: OpenTelemetryBridgeOptions) {
+    this._tracer = options.tracer;
+    this._api = options.api;
+  }
+
+  onJobStart(job: Job, event: IngestEvent): void {
+    const activeContext = this._api?.context.active();
+    const activeSpan = activeContext !== undefined ? this._api?.trace.getSpan(activeContext) : undefined;
+
+    let span: OtelSpan | undefined;
+    if (this._tracer) {
+      const parentSpan = job.parentJobId ? this._spans.get(job.parentJobId) : undefined;
+      const parentContext = parentSpan && this._api
+        ? this._api.trace.setSpan(activeContext, parentSpan)
+        : activeContext;
+
+      const jobType = event.data?.jobType;
+      span = this._tracer.startSpan(typeof jobType === 'string' ? `synquer.job ${jobType}` : 'synquer.job', {
+        attributes: toAttributes({
+          'synquer.job.id': job.id,
+          'synquer.job.type': jobType,
+          'synquer.job.external_id': job.externalId,
+          'synquer.job.parent_id': job.parentJobId,
+          'synquer.entity.type': event.data?.entityType,
+          'synquer.entity.id': event.data?.entityId,
+        }),
+        startTime: event.timestamp,
+      }, parentContext);
+      this._spans.set(job.id, span);
+    }
+
+    const traced = span ?? activeSpan;
+    if (traced && event.data) {
+      const { traceId, spanId } = traced.spanContext();
+      event.data.trace = {
+        traceId,
+        spanId,
+        ...(span && activeSpan && { parentSpanId: activeSpan.spanContext().spanId }),
+      };
+    }
+  }
+
+  onJobEvent(job: Job, event: IngestEvent): void {
+    const span = this._spans.get(job.id);
+    if (!span) return;
+
+    const { message, ...data } = event.data ?? {};
+    span.addEvent(typeof message === 'string' ? message : event.type, toAttributes(data), event.timestamp);
+  }
+
+  onJobEnd(job: Job, event: IngestEvent | undefined): void {
+    const span = this._spans.get(job.id);
+    if (!span) return;
+    this._spans.delete(job.id);
+
+    // Handed off to another process - the job continues elsewhere
+    if (!event) {
+      span.setAttribute('synquer.job.status', 'handoff');
+      span.end();
+      return;
+    }
+
+    span.setAttribute('synquer.job.status', event.type.slice('job.'.length));
+
+    if (event.type === 'job.failed') {
+      const error = (event.data?.error ?? {}) as { name?: string; message?: string; stack?: string };
+      span.recordException({
+        name: error.name ?? 'Error',
+        message: error.message ?? '',
+        ...(error.stack && { stack: error.stack }),
+      }, event.timestamp);
+      span.setStatus({ code: STATUS_ERROR, message: error.message });
+    } else if (event.type === 'job.timeout') {
+      span.setStatus({ code: STATUS_ERROR, message: `Job ${String(event.data?.reason ?? 'timeout')}` });
+    } else if (event.type === 'job.done') {
+      span.setStatus({ code: STATUS_OK });
+    }
+
+    span.end(event.timestamp);
+  }
+}
+
+/**
+ * Keep primitive values as span attributes, serializing objects to JSON.
+ */
+function toAttributes(data: Record<string, unknown>): OtelAttributes {
+  const attributes: OtelAttributes = {};
+  for (const [key, value] of Object.entries(data)) {
+    if (value === undefined || value === null) continue;
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+      attributes[key] = value;
+    } else {
+      try {
+        attributes[key] = JSON.stringify(value);
+      } catch {
+        // Skip values that can't be serialized
+      }
+    }
+  }
+  return attributes;
+}
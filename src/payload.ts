@@ -0,0 +1,75 @@
+import type { IngestEvent } from './types.js';
+
+/** Bytes taken by the {"events":[]} request envelope */
+const ENVELOPE_BYTES = Buffer.byteLength('{"events":[]}');
+const TRUNCATED_STRING_LENGTH = 1024;
+
+/**
+ * Size of an event in the JSON request body.
+ */
+export function eventBytes(event: IngestEvent): number {
+  return Buffer.byteLength(JSON.stringify(event));
+}
+
+/**
+ * Split events into batches whose JSON request body fits in maxBytes.
+ * An event too large on its own gets a batch to itself.
+ */
+export function chunkEvents(events: IngestEvent[], maxBytes: number): IngestEvent[][] {
+  const chunks: IngestEvent[][] = [];
+  let current: IngestEvent[] = [];
+  let size = ENVELOPE_BYTES;
+
+  for (const event of events) {
+    const bytes = eventBytes(event);
+
+    // Events after the first are separated by a comma
+    if (current.length > 0 && size + 1 + bytes > maxBytes) {
+      chunks.push(current);
+      current = [];
+      size = ENVELOPE_BYTES;
+    }
+
+    size += (current.length > 0 ? 1 : 0) + bytes;
+    current.push(event);
+  }
+
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+}
+
+/**
+ * Shrink an event so a request carrying only it fits in maxBytes.
+ *
+ * Long strings in its data are cut first. If that is not enough, the data is replaced
+ * with just its message. Returns the event unchanged when it already fits,
+ * and undefined when it cannot be made to fit.
+ */
+export function truncateEvent(event: IngestEvent, maxBytes: number): IngestEvent | undefined {
+  const fits = (candidate: IngestEvent): boolean => ENVELOPE_BYTES + eventBytes(candidate) <= maxBytes;
+  if (fits(event)) return event;
+
+  const data = event.data ?? {};
+  const shortened: IngestEvent = { ...event, data: { ...truncateStrings(data) as Record<string, unknown>, truncated: true } };
+  if (fits(shortened)) return shortened;
+
+  const message = typeof data.message === 'string' ? truncateString(data.message) : undefined;
+  const minimal: IngestEvent = { ...event, data: { ...(message !== undefined && { message }), truncated: true } };
+  if (fits(minimal)) return minimal;
+
+  return undefined;
+}
+
+function truncateStrings(value: unknown): unknown {
+  if (typeof value === 'string') return truncateString(value);
+  if (Array.isArray(value)) return value.map(truncateStrings);
+  // Leave values with their own JSON form, such as dates, as they are
+  if (value && typeof value === 'object' && !('toJSON' in value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, truncateStrings(item)]));
+  }
+  return value;
+}
+
+function truncateString(value: string): string {
+  return value.length > TRUNCATED_STRING_LENGTH ? `${value.slice(0, TRUNCATED_STRING_LENGTH)}…` : value;
+}
@@ -0,0 +1,94 @@
+import type { IngestEvent, RedactionOptions } from './types.js';
+
+const DEFAULT_REPLACEMENT = '[REDACTED]';
+const DEFAULT_MAX_DEPTH = 10;
+
+/**
+ * Common value patterns for use in RedactionOptions.patterns.
+ */
+export const REDACT_PATTERNS = {
+  email: /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g,
+  cardNumber: /\b(?:\d[ -]?){12,18}\d\b/g,
+  bearerToken: /\bBearer\s+[\w.~+/-]+=*/gi,
+} satisfies Record<string, RegExp>;
+
+/**
+ * Build a function that redacts the data of an event.
+ * The event is copied, never modified in place.
+ */
+export function createRedactor(options: RedactionOptions): (event: IngestEvent) => IngestEvent {
+  const keys = (options.keys ?? []).map(key => (typeof key === 'string' ? key.toLowerCase() : key));
+  const patterns = (options.patterns ?? []).map(pattern =>
+    pattern.global ? pattern : new RegExp(pattern.source, pattern.flags + 'g'),
+  );
+  const redactors = options.redactors ?? [];
+  const maxDepth = options.maxDepth ?? DEFAULT_MAX_DEPTH;
+  const maxStringLength = options.maxStringLength;
+  const replacement = options.replacement ?? DEFAULT_REPLACEMENT;
+
+  const isSensitiveKey = (key: string): boolean => {
+    const lower = key.toLowerCase();
+    return keys.some(match => (typeof match === 'string' ? lower.includes(match) : key.search(match) !== -1));
+  };
+
+  const redactString = (value: string): string => {
+    let result = value;
+    for (const pattern of patterns) {
+      result = result.replace(pattern, replacement);
+    }
+    if (maxStringLength !== undefined && result.length > maxStringLength) {
+      result = `${result.slice(0, maxStringLength)}…`;
+    }
+    return result;
+  };
+
+  // A throwing redactor (or toJSON) must never let the raw value out: it is replaced instead
+  const walk = (value: unknown, key: string, path: string[], seen: WeakSet<object>): unknown => {
+    try {
+      return walkValue(value, key, path, seen);
+    } catch {
+      return replacement;
+    }
+  };
+
+  const walkValue = (value: unknown, key: string, path: string[], seen: WeakSet<object>): unknown => {
+    for (const redactor of redactors) {
+      value = redactor(key, value, path);
+    }
+
+    if (typeof value === 'string') return redactString(value);
+    if (typeof value !== 'object' || value === null) return value;
+
+    // Match JSON serialization for Dates and other objects with toJSON
+    if (typeof (value as { toJSON?: unknown }).toJSON === 'function') {
+      return walk((value as { toJSON: () => unknown }).toJSON(), key, path, seen);
+    }
+
+    if (seen.has(value)) return '[Circular]';
+    if (path.length >= maxDepth) return '[Truncated]';
+    seen.add(value);
+
+    let result: unknown;
+    if (Array.isArray(value)) {
+      result = value.map((item, index) => walk(item, String(index), [...path, String(index)], seen));
+    } else {
+      const copy: Record<string, unknown> = {};
+      for (const [childKey, child] of Object.entries(value)) {
+        copy[childKey] = isSensitiveKey(childKey)
+          ? replacement
+          : walk(child, childKey, [...path, childKey], seen);
+      }
+      result = copy;
+    }
+
+    seen.delete(value);
+    return result;
+  };
+
+  return (event: IngestEvent): IngestEvent => {
+    if (!event.data) return event;
+
+    const data = walk(event.data, '', [], new WeakSet());
+    return { ...event, data: typeof data === 'object' && data !== null ? data as Record<string, unknown> : {} };
+  };
+}
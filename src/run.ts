@@ -0,0 +1,46 @@
+import type { Job } from './job.js';
+
+/**
+ * Run fn with the job, marking it done with the result or failed with the error.
+ * The error is rethrown. A job that fn already completed keeps its status.
+ */
+export async function runInJob<T>(job: Job, fn: (job: Job) => T | Promise<T>): Promise<T> {
+  let result: T;
+  try {
+    result = await fn(job);
+  } catch (err) {
+    await job.failed(err);
+    throw err;
+  }
+
+  await job.done(result);
+  return result;
+}
+
+/**
+ * Wrap an async generator so the job completes when iteration ends.
+ *
+ * The job is marked done with the generator's return value, failed if it throws,
+ * and done if the consumer stops iterating early.
+ */
+export async function* trackGenerator<Y, R, N>(job: Job, generator: AsyncGenerator<Y, R, N>): AsyncGenerator<Y, R, N> {
+  try {
+    const result = yield* generator;
+    await job.done(result);
+    return result;
+  } catch (err) {
+    await job.failed(err);
+    throw err;
+  } finally {
+    if (!job.completed) {
+      await job.done();
+    }
+  }
+}
+
+export function isAsyncGenerator(value: unknown): value is AsyncGenerator<unknown, unknown, unknown> {
+  return typeof value === 'object'
+    && value !== null
+    && typeof (value as AsyncGenerator)[Symbol.asyncIterator] === 'function'
+    && typeof (value as AsyncGenerator).next === 'function';
+}
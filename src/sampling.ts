@@ -0,0 +1,66 @@
+import type { SamplingRule } from './types.js';
+
+const WILDCARD = '*';
+
+/**
+ * Outcome of a sampling decision for one job.
+ */
+export interface SamplingDecision {
+  /** Whether the job is kept */
+  sampled: boolean;
+
+  /** Whether the job is sent anyway if it fails */
+  keepFailed: boolean;
+}
+
+/**
+ * Makes per-job sampling decisions from rules keyed by job type.
+ * Rules under '*' apply to job types without their own rule.
+ */
+export class Sampler {
+  private readonly _rules: Record<string, SamplingRule>;
+  private readonly _random: () => number;
+  private readonly _windows = new Map<string, { start: number; count: number }>();
+
+  constructor(rules: Record<string, SamplingRule>, random: () => number = Math.random) {
+    for (const [type, rule] of Object.entries(rules)) {
+      if (rule.rate !== undefined && (!(rule.rate >= 0) || rule.rate > 1)) {
+        throw new RangeError(`Synquer: sampling rate for '${type}' must be between 0 and 1, got ${rule.rate}`);
+      }
+    }
+
+    this._rules = rules;
+    this._random = random;
+  }
+
+  /**
+   * Decide whether a job of this type is kept.
+   */
+  sample(type: string): SamplingDecision {
+    const key = type in this._rules ? type : WILDCARD;
+    const rule = this._rules[key];
+    if (!rule) return { sampled: true, keepFailed: true };
+
+    const keepFailed = rule.keepFailed ?? true;
+
+    if (rule.rate !== undefined && this._random() >= rule.rate) {
+      return { sampled: false, keepFailed };
+    }
+
+    if (rule.limit) {
+      const now = Date.now();
+      let window = this._windows.get(key);
+      if (!window || now - window.start >= rule.limit.windowMs) {
+        window = { start: now, count: 0 };
+        this._windows.set(key, window);
+      }
+
+      if (window.count >= rule.limit.count) {
+        return { sampled: false, keepFailed };
+      }
+      window.count++;
+    }
+
+    return { sampled: true, keepFailed };
+  }
+}
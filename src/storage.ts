@@ -0,0 +1,136 @@
+import { appendFile, mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { IngestEvent, QueueStorage, QueuedEvent } from './types.js';
+
+const DEFAULT_MAX_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Options for the file-backed queue storage.
+ */
+export interface FileQueueStorageOptions {
+  /** Path of the append-only queue file */
+  path: string;
+
+  /** Max size of the queue file in bytes. Default: 10 MB */
+  maxBytes?: number;
+}
+
+/**
+ * Append-only file storage for the batch queue.
+ *
+ * Each line is either a queued event or a list of acknowledged sequence numbers.
+ * The file is compacted on load and whenever it would exceed maxBytes.
+ * Calls must not overlap: the client runs them one at a time.
+ */
+export class FileQueueStorage implements QueueStorage {
+  private readonly _path: string;
+  private readonly _maxBytes: number;
+  private readonly _pending = new Map<number, IngestEvent>();
+  private _size = 0;
+  private _directory?: Promise<unknown>;
+
+  constructor(options: FileQueueStorageOptions) {
+    if (!options.path) {
+      throw new Error('Synquer: storage path is required');
+    }
+
+    this._path = options.path;
+    this._maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+  }
+
+  async load(): Promise<QueuedEvent[]> {
+    this._pending.clear();
+
+    for (const line of (await readQueueFile(this._path)).split('\n')) {
+      if (!line) continue;
+
+      let record: { seq?: number; event?: IngestEvent; ack?: number[] };
+      try {
+        record = JSON.parse(line);
+      } catch {
+        // A partial line from a crash mid-write - skip it
+        continue;
+      }
+
+      if (typeof record.seq === 'number' && record.event) {
+        this._pending.set(record.seq, record.event);
+      } else if (Array.isArray(record.ack)) {
+        for (const seq of record.ack) this._pending.delete(seq);
+      }
+    }
+
+    await this._compact();
+
+    return [...this._pending].map(([seq, event]) => ({ seq, event }));
+  }
+
+  async append(entries: QueuedEvent[]): Promise<void> {
+    if (entries.length === 0) return;
+
+    const lines = entries.map(entry => serialize(entry)).join('');
+    const bytes = Buffer.byteLength(lines);
+
+    if (this._size + bytes > this._maxBytes) {
+      await this._compact();
+      if (this._size + bytes > this._maxBytes) {
+        throw new Error(`Synquer: queue file exceeds ${this._maxBytes} bytes, ${entries.length} events not persisted`);
+      }
+    }
+
+    await this._write(lines, true);
+    for (const { seq, event } of entries) {
+      this._pending.set(seq, event);
+    }
+  }
+
+  async ack(seqs: number[]): Promise<void> {
+    const acked = seqs.filter(seq => this._pending.delete(seq));
+    if (acked.length === 0) return;
+
+    // Nothing left to deliver - start from an empty file
+    if (this._pending.size === 0) {
+      await this._write('', false);
+      return;
+    }
+
+    await this._write(JSON.stringify({ ack: acked }) + '\n', true);
+  }
+
+  /**
+   * Rewrite the file with only the unacknowledged events.
+   */
+  private async _compact(): Promise<void> {
+    const lines = [...this._pending].map(([seq, event]) => serialize({ seq, event })).join('');
+    await this._write(lines, false);
+  }
+
+  private async _write(data: string, append: boolean): Promise<void> {
+    // The directory is created on the first write, and again only if that failed
+    this._directory ??= mkdir(dirname(this._path), { recursive: true }).catch((err: unknown) => {
+      this._directory = undefined;
+      throw err;
+    });
+    await this._directory;
+
+    if (append) {
+      await appendFile(this._path, data);
+      this._size += Buffer.byteLength(data);
+    } else {
+      await writeFile(this._path, data);
+      this._size = Buffer.byteLength(data);
+    }
+  }
+}
+
+async function readQueueFile(path: string): Promise<string> {
+  try {
+    return await readFile(path, 'utf8');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return '';
+    throw err;
+  }
+}
+
+function serialize(entry: QueuedEvent): string {
+  return JSON.stringify({ seq: entry.seq, event: entry.event }) + '\n';
+}
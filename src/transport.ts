@@ -0,0 +1,219 @@
+import { appendFile } from 'node:fs/promises';
+import { promisify } from 'node:util';
+import { deflate, gzip } from 'node:zlib';
+import type { BatchResponse, IngestEvent, Transport } from './types.js';
+
+const DEFAULT_BASE_URL = 'https://api.synquer.dev';
+const FETCH_TIMEOUT_MS = 10_000;
+
+const compressors = {
+  gzip: promisify(gzip),
+  deflate: promisify(deflate),
+};
+
+/**
+ * Error thrown by a transport when a batch could not be delivered.
+ */
+export class TransportError extends Error {
+  /** HTTP status code, when the failure came from a response */
+  readonly status?: number;
+
+  /** Whether the client should retry the batch. Ignored in favor of the retry policy when status is set */
+  readonly retryable: boolean;
+
+  /** How long the server asked to wait before retrying (Retry-After) */
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, options: { status?: number; retryable?: boolean; retryAfterMs?: number } = {}) {
+    super(message);
+    this.name = 'TransportError';
+    this.status = options.status;
+    this.retryable = options.retryable ?? true;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+/**
+ * Options for the HTTP transport.
+ */
+export interface HttpTransportOptions {
+  /** API key for authentication */
+  apiKey: string;
+
+  /** API base URL. Default: 'https://api.synquer.dev' */
+  baseUrl?: string;
+
+  /** Request timeout in ms. Default: 10000 */
+  timeoutMs?: number;
+
+  /** Compress request bodies. Default: uncompressed */
+  compression?: 'gzip' | 'deflate';
+}
+
+/**
+ * Sends events to the Synquer API with a POST to /v1/events/batch.
+ */
+export class HttpTransport implements Transport {
+  private readonly _url: string;
+  private readonly _apiKey: string;
+  private readonly _timeoutMs: number;
+  private readonly _compression?: 'gzip' | 'deflate';
+
+  constructor(options: HttpTransportOptions) {
+    if (!options.apiKey) {
+      throw new Error('Synquer: apiKey is required');
+    }
+
+    const baseUrl = (options.baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, '');
+    this._url = `${baseUrl}/v1/events/batch`;
+    this._apiKey = options.apiKey;
+    this._timeoutMs = options.timeoutMs ?? FETCH_TIMEOUT_MS;
+    this._compression = options.compression;
+  }
+
+  async send(events: IngestEvent[]): Promise<BatchResponse | void> {
+    const json = JSON.stringify({ events });
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${this._apiKey}`,
+    };
+
+    let body: string | Uint8Array = json;
+    if (this._compression) {
+      body = await compressors[this._compression](json);
+      headers['Content-Encoding'] = this._compression;
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this._timeoutMs);
+
+    let response: Response;
+    try {
+      response = await fetch(this._url, {
+        method: 'POST',
+        headers,
+        body,
+        signal: controller.signal,
+      });
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    if (response.ok || response.status === 207) {
+      // Success (200 or 207 partial) - the body lists any rejected events
+      return await response.json().catch(() => undefined) as BatchResponse | undefined;
+    }
+
+    // Non-retryable status codes
+    if (response.status === 400 || response.status === 401) {
+      const data = await response.json().catch(() => ({})) as Record<string, unknown>;
+      throw new TransportError(`Synquer API error ${response.status}: ${data.error ?? 'Unknown error'}`, {
+        status: response.status,
+        retryable: false,
+      });
+    }
+
+    // Retryable errors (500, 502, 503, 429, etc.)
+    throw new TransportError(`Synquer API error ${response.status}`, {
+      status: response.status,
+      retryAfterMs: parseRetryAfter(response.headers?.get('retry-after')),
+    });
+  }
+}
+
+/**
+ * Parse a Retry-After header given in seconds or as an HTTP date.
+ */
+function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, date - Date.now());
+}
+
+/**
+ * Options for the in-memory transport.
+ */
+export interface InMemoryTransportOptions {
+  /** Produce the API response for a batch. Throw to simulate a failed send. */
+  respond?: (events: IngestEvent[]) => BatchResponse | void | Promise<BatchResponse | void>;
+}
+
+/**
+ * Keeps every sent batch in memory so tests can assert against it.
+ */
+export class InMemoryTransport implements Transport {
+  /** Batches in the order they were sent */
+  readonly batches: IngestEvent[][] = [];
+  private readonly _respond?: InMemoryTransportOptions['respond'];
+
+  constructor(options: InMemoryTransportOptions = {}) {
+    this._respond = options.respond;
+  }
+
+  async send(events: IngestEvent[]): Promise<BatchResponse | void> {
+    this.batches.push([...events]);
+    return this._respond?.(events);
+  }
+
+  /**
+   * All sent events, flattened across batches.
+   */
+  get events(): IngestEvent[] {
+    return this.batches.flat();
+  }
+
+  /**
+   * Forget all recorded batches.
+   */
+  clear(): void {
+    this.batches.length = 0;
+  }
+}
+
+/**
+ * Options for the newline-delimited JSON transport.
+ * Exactly one of stream or path must be set.
+ */
+export interface NdjsonTransportOptions {
+  /** Stream to write to, e.g. process.stdout or a sidecar socket */
+  stream?: NodeJS.WritableStream;
+
+  /** File to append to */
+  path?: string;
+}
+
+/**
+ * Writes each event as one JSON line to a stream or file.
+ */
+export class NdjsonTransport implements Transport {
+  private readonly _stream?: NodeJS.WritableStream;
+  private readonly _path?: string;
+
+  constructor(options: NdjsonTransportOptions) {
+    if (!options.stream === !options.path) {
+      throw new Error('Synquer: NdjsonTransport requires either stream or path');
+    }
+
+    this._stream = options.stream;
+    this._path = options.path;
+  }
+
+  async send(events: IngestEvent[]): Promise<void> {
+    const lines = events.map(event => JSON.stringify(event) + '\n').join('');
+
+    if (this._path) {
+      await appendFile(this._path, lines);
+      return;
+    }
+
+    const stream = this._stream!;
+    await new Promise<void>((resolve, reject) => {
+      stream.write(lines, err => (err ? reject(err) : resolve()));
+    });
+  }
+}
@@ -1,13 +1,35 @@
+import type { Job } from './job.js';
+
 /**
  * Configuration options for the Synquer client.
  */
 export interface SynquerOptions {
-  /** API key for authentication (e.g., sk_live_xxx, sk_dev_xxx) */
-  apiKey: string;
+  /** API key for authentication (e.g., sk_live_xxx, sk_dev_xxx). Not needed with a custom transport. */
+  apiKey?: string;
 
   /** API base URL. Default: 'https://api.synquer.dev' */
   baseUrl?: string;
 
+  /** Custom transport for delivering events. Default: HTTP transport to baseUrl */
+  transport?: Transport;
+
+  /**
+   * Bind jobs to an AsyncLocalStorage context, so Synquer.currentJob() and event() reach them
+   * from anywhere in the call chain. Jobs created while another job is current become its children.
+   * Default: false
+   */
+  asyncContext?: boolean;
+
+  /** Compress request bodies of the default HTTP transport. Default: uncompressed */
+  compression?: 'gzip' | 'deflate';
+
+  /**
+   * Max size in bytes of a request body, before compression. Larger batches are split into
+   * several requests. Single events that are too large are truncated, or dropped when
+   * truncating is not enough, with a warning through onError. Default: no limit
+   */
+  maxPayloadBytes?: number;
+
   /**
    * Sending mode:
    * - 'per-job': Events stored per job, sent in a single HTTP call on done()/failed(). Best for serverless.
@@ -23,16 +45,241 @@ export interface SynquerOptions {
   /** Batch mode: max events before auto-flush. Default: 100 */
   batchSize?: number;
 
-  /** Max retry attempts for failed HTTP requests. Default: 3 */
+  /**
+   * Per-job mode: return from done(), failed() and other completion methods without waiting
+   * for the send. Use pending(), drain() or waitUntil to keep the process alive until it settles.
+   * Default: false
+   */
+  nonBlocking?: boolean;
+
+  /**
+   * Called with every send promise, e.g. the waitUntil of Vercel or Cloudflare Workers.
+   * The promise never rejects.
+   */
+  waitUntil?: (promise: Promise<void>) => void;
+
+  /**
+   * Max time in ms a job may stay open. Jobs still open after this are ended
+   * with a job.timeout event carrying their collected events. Default: no timeout
+   */
+  jobTimeoutMs?: number;
+
+  /**
+   * Max time in ms a completing parent waits for its open children. Children still open
+   * after this are ended with a job.timeout event (reason 'abandoned'). Default: jobTimeoutMs, or 30000
+   */
+  childTimeoutMs?: number;
+
+  /** Batch mode: max events held in the buffer. Default: 10000 */
+  maxBufferSize?: number;
+
+  /**
+   * Batch mode: what to do when the buffer is full:
+   * - 'drop-oldest': Drop the oldest buffered events to make room.
+   * - 'drop-newest': Drop the incoming events.
+   * - 'block': Wait for a flush to make room before completing the job.
+   *
+   * Default: 'drop-oldest'
+   */
+  dropPolicy?: 'drop-oldest' | 'drop-newest' | 'block';
+
+  /** Drop job events below this level before they are buffered. Default: 'debug' */
+  minLevel?: EventLevel;
+
+  /**
+   * Sampling rules keyed by job type. Rules under '*' apply to all other types.
+   * The decision is made once when the job is created, so jobs are kept or dropped as a whole.
+   */
+  sampling?: Record<string, SamplingRule>;
+
+  /** Extract extra fields from custom error classes when serializing job.failed errors */
+  errorExtractors?: ErrorExtractor[];
+
+  /** Lifecycle hooks run for every job, e.g. the OpenTelemetry bridge */
+  plugins?: SynquerPlugin[];
+
+  /** Redact sensitive data from every event before it is buffered or sent */
+  redact?: RedactionOptions;
+
+  /** Max retry attempts for failed sends. Default: 3 */
   maxRetries?: number;
 
-  /** Called when an HTTP send fails after all retries */
+  /** Backoff and retryable status codes for failed sends */
+  retryPolicy?: RetryPolicy;
+
+  /** Stop sending for a while after repeated failures. Default: disabled */
+  circuitBreaker?: CircuitBreakerOptions;
+
+  /** Called periodically with client stats, e.g. to export them as metrics */
+  onStats?: (stats: SynquerStats) => void;
+
+  /** Interval in ms between onStats calls. Default: 60000 */
+  statsInterval?: number;
+
+  /** Trace each send attempt with its status code and timing. true logs to the console */
+  debug?: boolean | SynquerLogger;
+
+  /**
+   * Call shutdown() on SIGTERM, SIGINT and beforeExit. The signal is raised again once
+   * shutdown has finished, unless the app listens for it too. Default timeout: 5000 ms
+   */
+  handleSignals?: boolean | { timeoutMs?: number };
+
+  /**
+   * Called when a send fails after all retries, an oversized event is truncated or dropped,
+   * or a job is given an invalid value such as out-of-range progress or a NaN metric
+   */
   onError?: (error: Error) => void;
 
-  /** When true, disables all HTTP calls. Useful for testing. Default: false */
+  /** Called with events dropped by the client before they could be sent */
+  onDrop?: (events: IngestEvent[], reason: DropReason) => void;
+
+  /**
+   * Called with the events the API permanently rejected in a 207 partial-success response.
+   * Events rejected for transient reasons are re-queued instead.
+   */
+  onRejected?: (rejected: RejectedEvent[]) => void;
+
+  /** When true, disables all sends. Useful for testing. Default: false */
   disabled?: boolean;
+
+  /**
+   * Batch mode: persistent storage for buffered events.
+   * Undelivered events are replayed on startup and removed once the API acknowledges them.
+   */
+  storage?: QueueStorage;
 }
 
+/**
+ * Counters describing what the client has done since it was created.
+ */
+export interface SynquerStats {
+  /** Events added to the buffer, including re-queued ones */
+  bufferedEvents: number;
+
+  /** Events the API accepted */
+  sentEvents: number;
+
+  /** Events dropped before they could be sent */
+  droppedEvents: number;
+
+  /** Events the API permanently rejected */
+  rejectedEvents: number;
+
+  /** Transport attempts, including retries */
+  sendAttempts: number;
+
+  /** Attempts that were retries of a failed attempt */
+  retries: number;
+
+  /** Sends given up on after all retries */
+  failedSends: number;
+
+  /** Mean duration of a transport attempt in ms */
+  avgSendLatencyMs: number;
+
+  /** Events currently in the buffer */
+  bufferDepth: number;
+
+  /** Sends currently in flight */
+  pendingSends: number;
+
+  /** Jobs created but not yet completed */
+  openJobs: number;
+
+  /** State of the circuit breaker */
+  circuitState: CircuitState;
+
+  /** Error of the last send that was given up on */
+  lastError?: Error;
+}
+
+/**
+ * Options for Synquer.shutdown().
+ */
+export interface ShutdownOptions {
+  /** Give up after this long, retrying failed flushes until then. Default: a single flush */
+  timeoutMs?: number;
+}
+
+/**
+ * Outcome of Synquer.shutdown().
+ */
+export interface ShutdownResult {
+  /** Events still buffered or in flight when shutdown finished */
+  unsentEvents: number;
+}
+
+/**
+ * Receives debug traces from the client. console satisfies it.
+ */
+export interface SynquerLogger {
+  debug(message: string, data?: Record<string, unknown>): void;
+}
+
+/**
+ * Sampling rule for one job type. Rate and limit can be combined.
+ */
+export interface SamplingRule {
+  /** Fraction of jobs to keep, from 0 to 1 */
+  rate?: number;
+
+  /** Keep at most count jobs per windowMs */
+  limit?: { count: number; windowMs: number };
+
+  /** Send failed (and timed out) jobs even when they were sampled out. Default: true */
+  keepFailed?: boolean;
+}
+
+/**
+ * Hooks into the lifecycle of every job.
+ * Events are passed as recorded on the job, after redaction. Errors thrown by hooks are ignored.
+ */
+export interface SynquerPlugin {
+  /** Called with the job.started (or job.resumed) event. May add fields to its data. */
+  onJobStart?(job: Job, event: IngestEvent): void;
+
+  /** Called for each event recorded between start and end */
+  onJobEvent?(job: Job, event: IngestEvent): void;
+
+  /** Called with the terminal event, or undefined when the job was handed off */
+  onJobEnd?(job: Job, event: IngestEvent | undefined): void;
+}
+
+/**
+ * Redaction applied to event data before it leaves the process.
+ */
+export interface RedactionOptions {
+  /** Redact values whose key matches. Strings match case-insensitively anywhere in the key */
+  keys?: Array<string | RegExp>;
+
+  /** Replace matches of these patterns inside string values */
+  patterns?: RegExp[];
+
+  /** Custom redactors, run in order on every value before the built-in rules */
+  redactors?: Redactor[];
+
+  /** Max nesting depth; deeper values are replaced with '[Truncated]'. Default: 10 */
+  maxDepth?: number;
+
+  /** Max string length; longer strings are truncated. Default: no limit */
+  maxStringLength?: number;
+
+  /** Replacement for redacted values. Default: '[REDACTED]' */
+  replacement?: string;
+}
+
+/**
+ * Custom redactor. Returns the value to use in place of the given one.
+ */
+export type Redactor = (key: string, value: unknown, path: readonly string[]) => unknown;
+
+/**
+ * Returns extra fields to record for an error, or undefined if it doesn't apply.
+ * Called for the failed error and every error in its cause chain.
+ */
+export type ErrorExtractor = (error: Error) => Record<string, unknown> | undefined;
+
 /**
  * Options for creating a new job.
  */
@@ -47,37 +294,273 @@ export interface JobOptions {
     ref?: string;
   };
 
-  /** Idempotency key - same externalId = same job in the API */
+  /**
+   * Idempotency key - same externalId = same job in the API.
+   * Carried by every event of the job, and used by synquer.resume() to continue it elsewhere.
+   */
   externalId?: string;
 
   /** Arbitrary metadata attached to the job */
   metadata?: Record<string, unknown>;
+
+  /**
+   * Max item outcomes from job.item() listed in the terminal event. Items beyond it are only
+   * counted, and failed items replace successful ones in the list. Default: 1000
+   */
+  maxItems?: number;
 }
 
+/**
+ * Severity of a job event, from least to most severe.
+ */
+export type EventLevel = 'debug' | 'info' | 'warn' | 'error';
+
 /**
  * Options for logging a job event.
  */
 export interface EventOptions {
   message?: string;
+
+  /** Event severity. Events below the client's minLevel are dropped. Default: 'info' */
+  level?: EventLevel;
+
+  /** Job progress as a percentage from 0 to 100 */
+  progress?: number;
+
+  /** Machine-readable event code (e.g. 'RATE_LIMITED') */
+  code?: string;
+
   data?: Record<string, unknown>;
 }
 
+/**
+ * Backoff between send retries.
+ *
+ * Delays grow as baseDelayMs * 2^attempt, capped at maxDelayMs. A Retry-After header
+ * from the server takes precedence when it asks for a longer wait.
+ */
+export interface RetryPolicy {
+  /** Base delay in ms. Default: 1000 */
+  baseDelayMs?: number;
+
+  /** Max backoff delay in ms. Default: 10000 */
+  maxDelayMs?: number;
+
+  /** 'full' waits a random time up to the backoff delay, 'none' waits exactly. Default: 'full' */
+  jitter?: 'full' | 'none';
+
+  /** HTTP status codes that are retried. Default: [408, 425, 429, 500, 502, 503, 504] */
+  retryableStatuses?: number[];
+
+  /** Give up instead of waiting when Retry-After asks for longer than this. Default: 60000 */
+  maxRetryAfterMs?: number;
+}
+
+/**
+ * State of the circuit breaker:
+ * - 'closed': Events are sent normally.
+ * - 'open': Sends are skipped until the cooldown has passed.
+ * - 'half-open': A single probe send decides whether to close or open again.
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Circuit breaker for the ingest endpoint.
+ */
+export interface CircuitBreakerOptions {
+  /** Consecutive failed send attempts that open the circuit. Default: 5 */
+  failureThreshold?: number;
+
+  /** Time in ms the circuit stays open before a probe is sent. Default: 30000 */
+  cooldownMs?: number;
+
+  /**
+   * What to do with events that cannot be sent while the circuit is open:
+   * - 'buffer': Keep them in the buffer (subject to maxBufferSize) until the circuit closes.
+   * - 'drop': Drop them, reporting them through onDrop.
+   *
+   * Default: 'buffer'
+   */
+  whenOpen?: 'buffer' | 'drop';
+
+  /** Called when the circuit changes state */
+  onStateChange?: (state: CircuitState, previous: CircuitState) => void;
+}
+
+/**
+ * Why the client dropped events without sending them.
+ */
+export type DropReason = 'buffer-full' | 'circuit-open';
+
+/**
+ * Terminal status of a job.
+ */
+export type JobStatus = 'done' | 'failed' | 'skipped' | 'review' | 'timeout';
+
+/**
+ * Details of a failed attempt that will be retried.
+ */
+export interface RetryingOptions {
+  /** The attempt that failed, starting at 1 */
+  attempt: number;
+
+  /** Delay before the next attempt in ms */
+  delayMs?: number;
+}
+
+/**
+ * Options for job.attempt().
+ */
+export interface AttemptOptions {
+  /** Total attempts, including the first. Default: 3 */
+  maxAttempts?: number;
+
+  /** Delay in ms before each retry, or a function of the failed attempt number. Default: 0 */
+  delayMs?: number | ((attempt: number, error: unknown) => number);
+
+  /** Return false to stop retrying on this error. Default: retry every error */
+  shouldRetry?: (error: unknown, attempt: number) => boolean;
+}
+
+/**
+ * Item throughput for job.items(). total replaces the previous value, the other counts add up.
+ */
+export interface ItemCounts {
+  /** Number of items the job will handle */
+  total?: number;
+
+  /** Items handled successfully */
+  processed?: number;
+
+  /** Items that failed */
+  failed?: number;
+
+  /** Items skipped */
+  skipped?: number;
+}
+
+/**
+ * Options for synquer.monitor().
+ */
+export interface MonitorOptions {
+  /** Cron expression of when runs are expected, in UTC, e.g. '0 3 * * *' or '@hourly' */
+  schedule: string;
+
+  /** End runs still going after this long with a job.timeout event. Default: no limit */
+  maxRuntimeMs?: number;
+
+  /** Interval in ms between job.heartbeat events while a run is in progress. Default: 30000 */
+  heartbeatIntervalMs?: number;
+}
+
+/**
+ * Outcome of one item within a bulk job.
+ */
+export type ItemStatus = 'done' | 'failed' | 'skipped';
+
+/**
+ * One item outcome, as listed in the terminal event of its job.
+ */
+export interface ItemOutcome {
+  entityType: string;
+  entityId: string;
+  entityRef?: string;
+  status: ItemStatus;
+  durationMs: number;
+  /** Serialized error of a failed item */
+  error?: Record<string, unknown>;
+  /** Reason given for a skipped item */
+  reason?: string;
+}
+
 /**
  * Internal event shape sent to the API.
  */
 export interface IngestEvent {
   jobId: string;
   externalId?: string;
-  type: 'job.started' | 'job.event' | 'job.done' | 'job.failed' | 'job.skipped' | 'job.review';
+  /** Set on the started event of child jobs */
+  parentJobId?: string;
+  type:
+    | 'job.started'
+    | 'job.resumed'
+    | 'job.event'
+    | 'job.retry'
+    | 'job.heartbeat'
+    | 'job.done'
+    | 'job.failed'
+    | 'job.skipped'
+    | 'job.review'
+    | 'job.timeout';
   timestamp: number;
   data?: Record<string, unknown>;
 }
 
+/**
+ * Delivers batches of events.
+ *
+ * Implementations make a single attempt: the client handles retries.
+ * Throw a TransportError with retryable: false for failures that should not be retried.
+ */
+export interface Transport {
+  send(events: IngestEvent[]): Promise<BatchResponse | void>;
+}
+
 /**
  * Response from the events batch API.
  */
 export interface BatchResponse {
   received: number;
   processed: number;
-  errors: Array<{ index: number; error: string }>;
+  errors: Array<{
+    /** Index of the rejected event in the request batch */
+    index: number;
+    error: string;
+    /** Whether the rejection is transient and the event may be sent again */
+    retryable?: boolean;
+  }>;
+}
+
+/**
+ * An event the API rejected, mapped back from its batch index.
+ */
+export interface RejectedEvent {
+  event: IngestEvent;
+  error: string;
+  index: number;
+}
+
+/**
+ * A buffered event with its sequence number in the persistent queue.
+ */
+export interface QueuedEvent {
+  seq: number;
+  event: IngestEvent;
 }
+
+/**
+ * Storage adapter for the persistent batch queue.
+ */
+export interface QueueStorage {
+  /** Load events that were stored but never acknowledged */
+  load(): QueuedEvent[] | Promise<QueuedEvent[]>;
+
+  /** Persist newly buffered events */
+  append(entries: QueuedEvent[]): void | Promise<void>;
+
+  /** Remove events the API has acknowledged */
+  ack(seqs: number[]): void | Promise<void>;
+}
+
+/**
+ * Job options for a tracked function, or a factory computing them from the call's arguments.
+ */
+export type TrackOptions<A extends unknown[]> = JobOptions | ((...args: A) => JobOptions);
+
+/**
+ * Method decorator returned by synquer.track(options).
+ */
+export type TrackDecorator<A extends unknown[]> = <This, R extends PromiseLike<unknown> | AsyncGenerator<unknown, unknown, unknown>>(
+  method: (this: This, ...args: A) => R,
+  context: ClassMethodDecoratorContext<This, (this: This, ...args: A) => R>,
+) => (this: This, ...args: A) => R;
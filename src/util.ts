@@ -0,0 +1,29 @@
+// Telemetry should never break the app: errors from user callbacks and background
+// work are ignored through these helpers rather than at each call site.
+
+/**
+ * Run fn, ignoring anything it throws.
+ */
+export function ignoreErrors(fn: () => void): void {
+  try {
+    fn();
+  } catch {
+    // Ignored
+  }
+}
+
+/**
+ * Ignore the rejection of a promise nobody awaits.
+ */
+export function ignoreRejection(promise: Promise<unknown>): void {
+  promise.catch(() => undefined);
+}
+
+/**
+ * Unref a timer so it doesn't keep the process alive.
+ */
+export function unrefTimer(timer: ReturnType<typeof setTimeout>): void {
+  if (typeof timer === 'object' && 'unref' in timer) {
+    timer.unref();
+  }
+}
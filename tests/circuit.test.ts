@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { CircuitBreaker } from '../src/circuit.js';
+
+describe('CircuitBreaker', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('opens after consecutive failures reach the threshold', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 3 });
+
+    breaker.recordFailure();
+    breaker.recordFailure();
+    expect(breaker.state).toBe('closed');
+    expect(breaker.allowRequest()).toBe(true);
+
+    breaker.recordFailure();
+    expect(breaker.state).toBe('open');
+    expect(breaker.allowRequest()).toBe(false);
+  });
+
+  it('resets the failure count on success', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2 });
+
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('lets a single probe through after the cooldown', () => {
+    vi.useFakeTimers();
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 1000 });
+
+    breaker.recordFailure();
+    vi.advanceTimersByTime(999);
+    expect(breaker.allowRequest()).toBe(false);
+
+    vi.advanceTimersByTime(1);
+    expect(breaker.allowRequest()).toBe(true);
+    expect(breaker.state).toBe('half-open');
+    expect(breaker.allowRequest()).toBe(false);
+  });
+
+  it('closes when the probe succeeds and re-opens when it fails', () => {
+    vi.useFakeTimers();
+    const breaker = new CircuitBreaker({ failureThreshold: 2, cooldownMs: 1000 });
+
+    breaker.recordFailure();
+    breaker.recordFailure();
+    vi.advanceTimersByTime(1000);
+    breaker.allowRequest();
+    breaker.recordFailure();
+    expect(breaker.state).toBe('open');
+    expect(breaker.allowRequest()).toBe(false);
+
+    vi.advanceTimersByTime(1000);
+    breaker.allowRequest();
+    breaker.recordSuccess();
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('reports state changes', () => {
+    vi.useFakeTimers();
+    const onStateChange = vi.fn();
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 10, onStateChange });
+
+    breaker.recordFailure();
+    vi.advanceTimersByTime(10);
+    breaker.allowRequest();
+    breaker.recordSuccess();
+
+    expect(onStateChange.mock.calls).toEqual([
+      ['open', 'closed'],
+      ['half-open', 'open'],
+      ['closed', 'half-open'],
+    ]);
+  });
+});
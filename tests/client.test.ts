@@ -1,5 +1,8 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { gunzipSync } from 'node:zlib';
 import { Synquer } from '../src/client.js';
+import { InMemoryTransport, TransportError } from '../src/transport.js';
+import type { BatchResponse, IngestEvent, QueuedEvent } from '../src/types.js';
 
 describe('Synquer Client', () => {
   let fetchSpy: ReturnType<typeof vi.fn>;
@@ -297,6 +300,84 @@ describe('Synquer Client', () => {
     expect(fetchSpy).toHaveBeenCalledOnce();
   });
 
+  it('reports permanently rejected events from a 207 response', async () => {
+    fetchSpy.mockResolvedValue({
+      ok: false,
+      status: 207,
+      json: () => Promise.resolve({ received: 2, processed: 1, errors: [{ index: 1, error: 'Invalid payload' }] }),
+    });
+
+    const onRejected = vi.fn();
+    const client = new Synquer({
+      apiKey: 'sk_dev_test',
+      baseUrl: 'http://localhost:3001',
+      onRejected,
+    });
+
+    const job = client.job({ type: 'test' });
+    await job.done();
+
+    expect(onRejected).toHaveBeenCalledOnce();
+    const [rejected] = onRejected.mock.calls[0];
+    expect(rejected).toHaveLength(1);
+    expect(rejected[0].index).toBe(1);
+    expect(rejected[0].error).toBe('Invalid payload');
+    expect(rejected[0].event.type).toBe('job.done');
+  });
+
+  it('does not resend a batch when onRejected throws', async () => {
+    fetchSpy.mockResolvedValue({
+      ok: false,
+      status: 207,
+      json: () => Promise.resolve({ received: 2, processed: 1, errors: [{ index: 1, error: 'Invalid payload' }] }),
+    });
+
+    const client = new Synquer({
+      apiKey: 'sk_dev_test',
+      baseUrl: 'http://localhost:3001',
+      onRejected: () => {
+        throw new Error('Handler bug');
+      },
+    });
+
+    await client.job({ type: 'test' }).done();
+
+    expect(fetchSpy).toHaveBeenCalledOnce();
+    expect(client.stats()).toMatchObject({ failedSends: 0, sentEvents: 1, rejectedEvents: 1 });
+  });
+
+  it('re-queues transiently rejected events from a 207 response', async () => {
+    fetchSpy
+      .mockResolvedValueOnce({
+        ok: false,
+        status: 207,
+        json: () => Promise.resolve({ received: 2, processed: 1, errors: [{ index: 0, error: 'Busy', retryable: true }] }),
+      })
+      .mockResolvedValueOnce({ ok: true, status: 200, json: () => Promise.resolve({ received: 1, processed: 1, errors: [] }) });
+
+    const onRejected = vi.fn();
+    const client = new Synquer({
+      apiKey: 'sk_dev_test',
+      baseUrl: 'http://localhost:3001',
+      mode: 'batch',
+      batchInterval: 60_000,
+      onRejected,
+    });
+
+    const job = client.job({ type: 'test' });
+    await job.done();
+    await client.flush();
+    await client.flush();
+
+    expect(onRejected).not.toHaveBeenCalled();
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+    const body = JSON.parse(fetchSpy.mock.calls[1][1].body);
+    expect(body.events).toHaveLength(1);
+    expect(body.events[0].type).toBe('job.started');
+
+    await client.shutdown();
+  });
+
   // -- Multiple jobs --
 
   it('generates unique job IDs', () => {
@@ -351,4 +432,1189 @@ describe('Synquer Client', () => {
 
     await client.shutdown();
   });
+
+  // -- Persistent queue --
+
+  function createMemoryStorage(initial: QueuedEvent[] = []) {
+    const entries = new Map(initial.map(entry => [entry.seq, entry.event]));
+    return {
+      entries,
+      load: vi.fn(async () => [...entries].map(([seq, event]) => ({ seq, event }))),
+      append: vi.fn((added: QueuedEvent[]) => {
+        for (const { seq, event } of added) entries.set(seq, event);
+      }),
+      ack: vi.fn((seqs: number[]) => {
+        for (const seq of seqs) entries.delete(seq);
+      }),
+    };
+  }
+
+  it('persists buffered events and removes them once acknowledged', async () => {
+    const storage = createMemoryStorage();
+    const client = new Synquer({
+      apiKey: 'sk_dev_test',
+      baseUrl: 'http://localhost:3001',
+      mode: 'batch',
+      batchInterval: 60_000,
+      storage,
+    });
+
+    const job = client.job({ type: 'test' });
+    await job.done();
+    await client.flush();
+    await client.shutdown();
+
+    expect(storage.append).toHaveBeenCalledOnce();
+    expect(storage.append.mock.calls[0][0]).toHaveLength(2);
+    expect(storage.ack).toHaveBeenCalledWith([0, 1]);
+    expect(storage.entries.size).toBe(0);
+  });
+
+  it('keeps events in storage when the flush fails', async () => {
+    fetchSpy.mockRejectedValue(new Error('Network error'));
+    const storage = createMemoryStorage();
+    const client = new Synquer({
+      apiKey: 'sk_dev_test',
+      baseUrl: 'http://localhost:3001',
+      mode: 'batch',
+      batchInterval: 60_000,
+      maxRetries: 0,
+      storage,
+    });
+
+    const job = client.job({ type: 'test' });
+    await job.done();
+    await client.shutdown();
+
+    expect(storage.ack).not.toHaveBeenCalled();
+    expect(storage.entries.size).toBe(2);
+  });
+
+  it('replays undelivered events from storage on startup', async () => {
+    const storage = createMemoryStorage([
+      { seq: 4, event: { jobId: 'old-job', type: 'job.started', timestamp: 1 } },
+      { seq: 5, event: { jobId: 'old-job', type: 'job.done', timestamp: 2 } },
+    ]);
+    const client = new Synquer({
+      apiKey: 'sk_dev_test',
+      baseUrl: 'http://localhost:3001',
+      mode: 'batch',
+      batchInterval: 60_000,
+      storage,
+    });
+
+    const job = client.job({ type: 'test' });
+    await job.done();
+    await client.shutdown();
+
+    expect(fetchSpy).toHaveBeenCalledOnce();
+    const body = JSON.parse(fetchSpy.mock.calls[0][1].body);
+    expect(body.events.map((e: IngestEvent) => e.jobId)).toEqual(['old-job', 'old-job', job.id, job.id]);
+    // New events continue after the restored sequence numbers
+    expect(storage.append.mock.calls[0][0].map((entry: QueuedEvent) => entry.seq)).toEqual([6, 7]);
+    expect(storage.entries.size).toBe(0);
+  });
+
+  it('reports storage failures through onError', async () => {
+    const onError = vi.fn();
+    const storage = createMemoryStorage();
+    storage.append.mockImplementation(() => {
+      throw new Error('Disk full');
+    });
+    const client = new Synquer({
+      apiKey: 'sk_dev_test',
+      mode: 'batch',
+      batchInterval: 60_000,
+      storage,
+      onError,
+    });
+
+    const job = client.job({ type: 'test' });
+    await job.done();
+    await client.shutdown();
+
+    expect(onError).toHaveBeenCalledOnce();
+    expect(onError.mock.calls[0][0].message).toBe('Disk full');
+    expect(fetchSpy).toHaveBeenCalledOnce();
+  });
+
+  // -- Transports --
+
+  it('sends through a custom transport without an apiKey', async () => {
+    const transport = new InMemoryTransport();
+    const client = new Synquer({ transport });
+
+    const job = client.job({ type: 'test' });
+    job.event('Processing');
+    await job.done();
+
+    expect(fetchSpy).not.toHaveBeenCalled();
+    expect(transport.batches).toHaveLength(1);
+    expect(transport.events.map(e => e.type)).toEqual(['job.started', 'job.event', 'job.done']);
+  });
+
+  it('does not retry non-retryable transport errors', async () => {
+    const onError = vi.fn();
+    const respond = vi.fn(() => {
+      throw new TransportError('Rejected', { retryable: false });
+    });
+    const client = new Synquer({ transport: new InMemoryTransport({ respond }), onError });
+
+    const job = client.job({ type: 'test' });
+    await job.done();
+
+    expect(respond).toHaveBeenCalledOnce();
+    expect(onError.mock.calls[0][0].message).toBe('Rejected');
+  });
+
+  // -- Buffer limits --
+
+  it('drops the oldest events when the buffer is full', async () => {
+    const onDrop = vi.fn();
+    const client = new Synquer({
+      apiKey: 'sk_dev_test',
+      mode: 'batch',
+      batchInterval: 60_000,
+      maxBufferSize: 3,
+      onDrop,
+    });
+
+    const job1 = client.job({ type: 'first' });
+    await job1.done();
+    const job2 = client.job({ type: 'second' });
+    await job2.done();
+
+    expect(client.droppedEvents).toBe(1);
+    expect(onDrop).toHaveBeenCalledOnce();
+    const [dropped, reason] = onDrop.mock.calls[0];
+    expect(reason).toBe('buffer-full');
+    expect(dropped[0].jobId).toBe(job1.id);
+    expect(dropped[0].type).toBe('job.started');
+
+    await client.shutdown();
+    const body = JSON.parse(fetchSpy.mock.calls[0][1].body);
+    expect(body.events).toHaveLength(3);
+  });
+
+  it('completes the job when onDrop throws', async () => {
+    const client = new Synquer({
+      transport: new InMemoryTransport(),
+      mode: 'batch',
+      batchInterval: 60_000,
+      maxBufferSize: 1,
+      onDrop: () => {
+        throw new Error('Handler bug');
+      },
+    });
+
+    await expect(client.run({ type: 'test' }, () => 'ok')).resolves.toBe('ok');
+    expect(client.droppedEvents).toBe(1);
+
+    await client.shutdown();
+  });
+
+  it('drops the newest events with the drop-newest policy', async () => {
+    const onDrop = vi.fn();
+    const client = new Synquer({
+      apiKey: 'sk_dev_test',
+      mode: 'batch',
+      batchInterval: 60_000,
+      maxBufferSize: 3,
+      dropPolicy: 'drop-newest',
+      onDrop,
+    });
+
+    const job1 = client.job({ type: 'first' });
+    await job1.done();
+    const job2 = client.job({ type: 'second' });
+    await job2.done();
+
+    expect(client.droppedEvents).toBe(1);
+    const [dropped] = onDrop.mock.calls[0];
+    expect(dropped[0].jobId).toBe(job2.id);
+    expect(dropped[0].type).toBe('job.done');
+
+    await client.shutdown();
+  });
+
+  it('waits for a flush to make room with the block policy', async () => {
+    const onDrop = vi.fn();
+    const client = new Synquer({
+      apiKey: 'sk_dev_test',
+      baseUrl: 'http://localhost:3001',
+      mode: 'batch',
+      batchInterval: 60_000,
+      maxBufferSize: 2,
+      dropPolicy: 'block',
+      onDrop,
+    });
+
+    const job1 = client.job({ type: 'first' });
+    await job1.done();
+    expect(fetchSpy).not.toHaveBeenCalled();
+
+    const job2 = client.job({ type: 'second' });
+    await job2.done();
+
+    expect(fetchSpy).toHaveBeenCalledOnce();
+    const body = JSON.parse(fetchSpy.mock.calls[0][1].body);
+    expect(body.events.map((e: IngestEvent) => e.jobId)).toEqual([job1.id, job1.id]);
+    expect(onDrop).not.toHaveBeenCalled();
+
+    await client.shutdown();
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it('drops events that no longer fit after a failed flush', async () => {
+    fetchSpy.mockRejectedValue(new Error('Network error'));
+    const onDrop = vi.fn();
+    const client = new Synquer({
+      apiKey: 'sk_dev_test',
+      mode: 'batch',
+      batchInterval: 60_000,
+      maxRetries: 0,
+      maxBufferSize: 2,
+      onDrop,
+    });
+
+    const job1 = client.job({ type: 'first' });
+    await job1.done();
+
+    const flushing = client.flush();
+    const job2 = client.job({ type: 'second' });
+    await job2.done();
+    await flushing;
+
+    // job2's events were added during the failed flush, then job1's came back in front
+    expect(client.droppedEvents).toBe(2);
+    expect(onDrop.mock.calls[0][0].map((e: IngestEvent) => e.jobId)).toEqual([job1.id, job1.id]);
+
+    await client.shutdown();
+  });
+
+  // -- run / track --
+
+  it('run() completes the job with the callback result', async () => {
+    const transport = new InMemoryTransport();
+    const client = new Synquer({ transport });
+
+    const result = await client.run({ type: 'order_sync' }, async (job) => {
+      job.event('Processing');
+      return { invoiceId: 'INV-001' };
+    });
+
+    expect(result).toEqual({ invoiceId: 'INV-001' });
+    const done = transport.events[2];
+    expect(done.type).toBe('job.done');
+    expect(done.data?.result).toEqual({ invoiceId: 'INV-001' });
+  });
+
+  it('run() fails the job and rethrows', async () => {
+    const transport = new InMemoryTransport();
+    const client = new Synquer({ transport });
+
+    await expect(client.run({ type: 'order_sync' }, async () => {
+      throw new Error('ERP down');
+    })).rejects.toThrow('ERP down');
+
+    const failed = transport.events[1];
+    expect(failed.type).toBe('job.failed');
+    expect(failed.data?.error).toEqual(expect.objectContaining({ message: 'ERP down' }));
+  });
+
+  it('run() keeps a status set by the callback', async () => {
+    const transport = new InMemoryTransport();
+    const client = new Synquer({ transport });
+
+    await client.run({ type: 'order_sync' }, job => job.skip('Already synced'));
+
+    expect(transport.events.map(e => e.type)).toEqual(['job.started', 'job.skipped']);
+  });
+
+  it('track() wraps a function with options computed from its arguments', async () => {
+    const transport = new InMemoryTransport();
+    const client = new Synquer({ transport });
+
+    const syncOrder = client.track(
+      (orderId: string) => ({ type: 'order_sync', entity: { type: 'order', id: orderId } }),
+      async (job, orderId: string) => {
+        job.event(`Syncing ${orderId}`);
+        return orderId.length;
+      },
+    );
+
+    await expect(syncOrder('1001')).resolves.toBe(4);
+    expect(transport.events[0].data?.entityId).toBe('1001');
+    expect(transport.events[2].data?.result).toBe(4);
+  });
+
+  it('track() fails the job when the function throws synchronously', async () => {
+    const transport = new InMemoryTransport();
+    const client = new Synquer({ transport });
+
+    const sync = client.track({ type: 'test' }, () => {
+      throw new Error('Bad input');
+    });
+
+    await expect(sync()).rejects.toThrow('Bad input');
+    expect(transport.events[1].type).toBe('job.failed');
+  });
+
+  it('track() completes async generator jobs when iteration ends', async () => {
+    const transport = new InMemoryTransport();
+    const client = new Synquer({ transport });
+
+    const pages = client.track({ type: 'product_import' }, async function* (job, count: number) {
+      for (let i = 0; i < count; i++) {
+        job.event(`Page ${i}`);
+        yield i;
+      }
+      return 'finished';
+    });
+
+    const seen: number[] = [];
+    for await (const page of pages(3)) {
+      expect(transport.events).toHaveLength(0);
+      seen.push(page);
+    }
+
+    expect(seen).toEqual([0, 1, 2]);
+    expect(transport.events.map(e => e.type)).toEqual([
+      'job.started', 'job.event', 'job.event', 'job.event', 'job.done',
+    ]);
+    expect(transport.events[4].data?.result).toBe('finished');
+  });
+
+  it('track() fails async generator jobs that throw', async () => {
+    const transport = new InMemoryTransport();
+    const client = new Synquer({ transport });
+
+    const pages = client.track({ type: 'product_import' }, async function* () {
+      yield 1;
+      throw new Error('Page fetch failed');
+    });
+
+    await expect(async () => {
+      for await (const _ of pages()) { /* consume */ }
+    }).rejects.toThrow('Page fetch failed');
+    expect(transport.events[1].type).toBe('job.failed');
+  });
+
+  it('run() completes async generator jobs when iteration ends', async () => {
+    const transport = new InMemoryTransport();
+    const client = new Synquer({ transport });
+
+    const pages = await client.run({ type: 'product_import' }, async function* () {
+      yield 1;
+      throw new Error('Page fetch failed');
+    });
+    expect(transport.events).toHaveLength(0);
+
+    await expect(async () => {
+      for await (const _ of pages) { /* consume */ }
+    }).rejects.toThrow('Page fetch failed');
+    expect(transport.events.map(e => e.type)).toEqual(['job.started', 'job.failed']);
+  });
+
+  it('track() completes async generator jobs when the consumer stops early', async () => {
+    const transport = new InMemoryTransport();
+    const client = new Synquer({ transport });
+
+    const pages = client.track({ type: 'product_import' }, async function* () {
+      yield 1;
+      yield 2;
+    });
+
+    for await (const _ of pages()) break;
+
+    expect(transport.events.map(e => e.type)).toEqual(['job.started', 'job.done']);
+  });
+
+  it('track() works as a method decorator', async () => {
+    const transport = new InMemoryTransport();
+    const client = new Synquer({ transport });
+
+    class OrderSync {
+      constructor(private readonly prefix: string) {}
+
+      @client.track({ type: 'order_sync' })
+      async sync(orderId: string) {
+        return `${this.prefix}-${orderId}`;
+      }
+    }
+
+    await expect(new OrderSync('INV').sync('1001')).resolves.toBe('INV-1001');
+    expect(transport.events.map(e => e.type)).toEqual(['job.started', 'job.done']);
+    expect(transport.events[1].data?.result).toBe('INV-1001');
+  });
+
+  // -- Leak detection --
+
+  it('tracks open jobs until they complete', async () => {
+    const client = new Synquer({ transport: new InMemoryTransport() });
+
+    const job = client.job({ type: 'test' });
+    const child = job.child({ type: 'step' });
+    expect(client.openJobs).toBe(2);
+
+    await child.done();
+    await job.done();
+    expect(client.openJobs).toBe(0);
+  });
+
+  it('ends jobs that exceed jobTimeoutMs with a job.timeout event', async () => {
+    const transport = new InMemoryTransport();
+    const client = new Synquer({ transport, jobTimeoutMs: 20 });
+
+    const job = client.job({ type: 'order_sync' });
+    job.event('Fetching order');
+
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect(job.completed).toBe(true);
+    expect(job.status).toBe('timeout');
+    expect(client.openJobs).toBe(0);
+    expect(transport.events.map(e => e.type)).toEqual(['job.started', 'job.event', 'job.timeout']);
+    expect(transport.events[2].data).toEqual(expect.objectContaining({ reason: 'timeout', timeoutMs: 20 }));
+  });
+
+  it('does not time out jobs that complete in time', async () => {
+    const transport = new InMemoryTransport();
+    const client = new Synquer({ transport, jobTimeoutMs: 20 });
+
+    const job = client.job({ type: 'test' });
+    await job.done();
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect(transport.events.map(e => e.type)).toEqual(['job.started', 'job.done']);
+  });
+
+  it('completes a parent waiting on a timed-out child', async () => {
+    const transport = new InMemoryTransport();
+    const client = new Synquer({ transport, jobTimeoutMs: 20 });
+
+    const job = client.job({ type: 'order_sync' });
+    job.child({ type: 'push_erp' });
+
+    // The child never completes, so the parent waits until the child times out
+    await job.done();
+
+    expect(job.status).toBe('done');
+    expect(transport.events.at(-1)?.data?.children).toEqual(
+      expect.objectContaining({ statuses: { timeout: 1 } }),
+    );
+  });
+
+  it('completes run() when a child is never completed', async () => {
+    const transport = new InMemoryTransport();
+    const client = new Synquer({ transport, childTimeoutMs: 20 });
+
+    let childId: string | undefined;
+    await client.run({ type: 'order_sync' }, async job => {
+      childId = job.child({ type: 'push_erp' }).id;
+    });
+
+    const childEvents = transport.events.filter(e => e.jobId === childId);
+    expect(childEvents.map(e => e.type)).toEqual(['job.started', 'job.timeout']);
+    expect(childEvents[1]?.data?.reason).toBe('abandoned');
+    expect(transport.events.at(-1)?.type).toBe('job.done');
+    expect(transport.events.at(-1)?.data?.children).toEqual(
+      expect.objectContaining({ statuses: { timeout: 1 } }),
+    );
+    expect(client.openJobs).toBe(0);
+  });
+
+  it('keeps the status of a child that completes while its parent waits', async () => {
+    const transport = new InMemoryTransport();
+    const client = new Synquer({ transport });
+
+    await client.run({ type: 'order_sync' }, async job => {
+      const child = job.child({ type: 'push_erp' });
+      setTimeout(() => child.done('pushed'), 10);
+    });
+
+    expect(transport.events.at(-1)?.data?.children).toEqual(
+      expect.objectContaining({ statuses: { done: 1 } }),
+    );
+  });
+
+  it('sends open jobs as abandoned on shutdown', async () => {
+    const client = new Synquer({
+      apiKey: 'sk_dev_test',
+      baseUrl: 'http://localhost:3001',
+      mode: 'batch',
+      batchInterval: 60_000,
+    });
+
+    const job = client.job({ type: 'test' });
+    job.event('Started work');
+
+    await client.shutdown();
+
+    expect(fetchSpy).toHaveBeenCalledOnce();
+    const body = JSON.parse(fetchSpy.mock.calls[0][1].body);
+    expect(body.events.map((e: IngestEvent) => e.type)).toEqual(['job.started', 'job.event', 'job.timeout']);
+    expect(body.events[2].data.reason).toBe('abandoned');
+  });
+
+  // -- Event levels --
+
+  it('applies minLevel to jobs created by the client', async () => {
+    const transport = new InMemoryTransport();
+    const client = new Synquer({ transport, minLevel: 'warn' });
+
+    const job = client.job({ type: 'test' });
+    job.debug('Dropped');
+    job.info('Dropped too');
+    job.warn('Kept');
+    const child = job.child({ type: 'step' });
+    child.info('Dropped in child');
+    await child.done();
+    await job.done();
+
+    const messages = transport.events.filter(e => e.type === 'job.event').map(e => e.data?.message);
+    expect(messages).toEqual(['Kept']);
+  });
+
+  // -- Redaction --
+
+  it('redacts every event before it is sent', async () => {
+    const transport = new InMemoryTransport();
+    const client = new Synquer({
+      transport,
+      redact: { keys: ['authorization'], patterns: [/sk_live_\w+/g] },
+    });
+
+    const job = client.job({ type: 'test', metadata: { authorization: 'Bearer abc' } });
+    job.event({ message: 'Using key sk_live_123' });
+    await job.failed(new Error('Rejected key sk_live_123'));
+
+    const sent = JSON.stringify(transport.events);
+    expect(sent).not.toContain('Bearer abc');
+    expect(sent).not.toContain('sk_live_123');
+    expect(transport.events[1].data?.message).toBe('Using key [REDACTED]');
+    // Events are redacted as they are recorded, so the job never holds the raw values
+    expect(job.getEvents()[1].data?.message).toBe('Using key [REDACTED]');
+  });
+
+  // -- Sampling --
+
+  it('drops sampled-out jobs as a whole', async () => {
+    const transport = new InMemoryTransport();
+    const client = new Synquer({ transport, sampling: { inventory_update: { rate: 0 } } });
+
+    const job = client.job({ type: 'inventory_update' });
+    expect(job.sampled).toBe(false);
+    const child = job.child({ type: 'write_stock' });
+    expect(child.sampled).toBe(false);
+    job.event('Updating');
+    await child.done();
+    await job.done();
+
+    const other = client.job({ type: 'order_sync' });
+    await other.done();
+
+    expect(transport.events.map(e => e.jobId)).toEqual([other.id, other.id]);
+  });
+
+  it('keeps failed jobs that were sampled out', async () => {
+    const transport = new InMemoryTransport();
+    const client = new Synquer({ transport, sampling: { inventory_update: { rate: 0 } } });
+
+    const job = client.job({ type: 'inventory_update' });
+    await job.failed(new Error('Stock mismatch'));
+
+    expect(transport.events.map(e => e.type)).toEqual(['job.started', 'job.failed']);
+  });
+
+  it('sends the full history of a sampled-out job that fails after flushing', async () => {
+    const transport = new InMemoryTransport();
+    const client = new Synquer({ transport, sampling: { inventory_update: { rate: 0 } } });
+
+    const job = client.job({ type: 'inventory_update' });
+    job.event('Counting stock');
+    await job.flush();
+    await job.heartbeat();
+    expect(transport.events).toHaveLength(0);
+
+    await job.failed(new Error('Stock mismatch'));
+
+    expect(transport.events.map(e => e.type)).toEqual(['job.started', 'job.event', 'job.heartbeat', 'job.failed']);
+  });
+
+  it('drops failed jobs when keepFailed is false', async () => {
+    const transport = new InMemoryTransport();
+    const client = new Synquer({
+      transport,
+      sampling: { inventory_update: { rate: 0, keepFailed: false } },
+    });
+
+    await client.job({ type: 'inventory_update' }).failed(new Error('Stock mismatch'));
+
+    expect(transport.events).toHaveLength(0);
+  });
+
+  // -- Error serialization --
+
+  it('applies errorExtractors to failed jobs', async () => {
+    const transport = new InMemoryTransport();
+    const client = new Synquer({
+      transport,
+      errorExtractors: [err => ('orderId' in err ? { order: err.orderId } : undefined)],
+    });
+
+    const error = Object.assign(new Error('Invoice rejected', { cause: new Error('VAT invalid') }), { orderId: '1001' });
+    await client.job({ type: 'order_sync' }).failed(error);
+
+    expect(transport.events[1].data?.error).toEqual(expect.objectContaining({
+      message: 'Invoice rejected',
+      orderId: '1001',
+      order: '1001',
+      cause: expect.objectContaining({ message: 'VAT invalid' }),
+    }));
+  });
+
+  // -- Resume --
+
+  it('resumes a job by externalId', async () => {
+    const transport = new InMemoryTransport();
+    const webhook = new Synquer({ transport });
+    const worker = new Synquer({ transport });
+
+    const started = webhook.job({ type: 'order_sync', externalId: 'order-1001' });
+    started.event('Webhook received');
+    await started.handoff();
+    expect(webhook.openJobs).toBe(0);
+
+    const resumed = worker.resume('order-1001', { type: 'order_sync' });
+    resumed.event('Invoice created');
+    await resumed.done({ invoiceId: 'INV-001' });
+
+    expect(transport.events.map(e => [e.type, e.externalId])).toEqual([
+      ['job.started', 'order-1001'],
+      ['job.event', 'order-1001'],
+      ['job.resumed', 'order-1001'],
+      ['job.event', 'order-1001'],
+      ['job.done', 'order-1001'],
+    ]);
+    expect(transport.events[2].data?.jobType).toBe('order_sync');
+  });
+
+  it('throws if resume is called without an externalId', () => {
+    const client = new Synquer({ transport: new InMemoryTransport() });
+    expect(() => client.resume('')).toThrow('externalId is required');
+  });
+
+  it('never samples out resumed jobs', async () => {
+    const transport = new InMemoryTransport();
+    const client = new Synquer({ transport, sampling: { '*': { rate: 0 } } });
+
+    await client.resume('order-1001').done();
+
+    expect(transport.events.map(e => e.type)).toEqual(['job.resumed', 'job.done']);
+  });
+
+  it('never samples out jobs that can be handed off', async () => {
+    const transport = new InMemoryTransport();
+    const client = new Synquer({ transport, sampling: { '*': { rate: 0 } } });
+
+    const job = client.job({ type: 'order_sync', externalId: 'order-1001' });
+    expect(job.sampled).toBe(true);
+    await job.handoff();
+    await client.resume('order-1001').done();
+
+    expect(transport.events.map(e => e.type)).toEqual(['job.started', 'job.resumed', 'job.done']);
+  });
+
+  // -- Retry policy --
+
+  it('does not retry status codes outside the retry policy', async () => {
+    const onError = vi.fn();
+    fetchSpy.mockResolvedValue({ ok: false, status: 403, json: () => Promise.resolve({}) });
+
+    const client = new Synquer({ apiKey: 'sk_dev_test', onError });
+    await client.job({ type: 'test' }).done();
+
+    expect(fetchSpy).toHaveBeenCalledOnce();
+    expect(onError.mock.calls[0][0].message).toContain('403');
+  });
+
+  it('retries custom retryable status codes', async () => {
+    fetchSpy
+      .mockResolvedValueOnce({ ok: false, status: 404, json: () => Promise.resolve({}) })
+      .mockResolvedValueOnce({ ok: true, status: 200, json: () => Promise.resolve({}) });
+
+    const client = new Synquer({
+      apiKey: 'sk_dev_test',
+      retryPolicy: { baseDelayMs: 1, retryableStatuses: [404] },
+    });
+    await client.job({ type: 'test' }).done();
+
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it('waits for Retry-After before retrying', async () => {
+    const headers = new Headers({ 'Retry-After': '0.05' });
+    fetchSpy
+      .mockResolvedValueOnce({ ok: false, status: 429, headers, json: () => Promise.resolve({}) })
+      .mockResolvedValueOnce({ ok: true, status: 200, json: () => Promise.resolve({}) });
+
+    const client = new Synquer({
+      apiKey: 'sk_dev_test',
+      retryPolicy: { baseDelayMs: 1, jitter: 'none' },
+    });
+
+    const start = Date.now();
+    await client.job({ type: 'test' }).done();
+
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+    expect(Date.now() - start).toBeGreaterThanOrEqual(45);
+  });
+
+  it('gives up when Retry-After exceeds maxRetryAfterMs', async () => {
+    const onError = vi.fn();
+    const headers = new Headers({ 'Retry-After': '120' });
+    fetchSpy.mockResolvedValue({ ok: false, status: 503, headers, json: () => Promise.resolve({}) });
+
+    const client = new Synquer({ apiKey: 'sk_dev_test', onError });
+    await client.job({ type: 'test' }).done();
+
+    expect(fetchSpy).toHaveBeenCalledOnce();
+    expect(onError).toHaveBeenCalledOnce();
+  });
+
+  it('applies full jitter to the backoff delay', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    fetchSpy
+      .mockResolvedValueOnce({ ok: false, status: 500, json: () => Promise.resolve({}) })
+      .mockResolvedValueOnce({ ok: true, status: 200, json: () => Promise.resolve({}) });
+
+    const client = new Synquer({ apiKey: 'sk_dev_test', retryPolicy: { baseDelayMs: 5000 } });
+
+    const start = Date.now();
+    await client.job({ type: 'test' }).done();
+
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+    expect(Date.now() - start).toBeLessThan(1000);
+  });
+
+  it('splits the batch in half on 413', async () => {
+    fetchSpy.mockImplementation(async (_url: string, opts: { body: string }) => {
+      const { events } = JSON.parse(opts.body);
+      return events.length > 2
+        ? { ok: false, status: 413, json: () => Promise.resolve({}) }
+        : { ok: true, status: 200, json: () => Promise.resolve({}) };
+    });
+
+    const client = new Synquer({ apiKey: 'sk_dev_test' });
+    const job = client.job({ type: 'test' });
+    job.event('One');
+    job.event('Two');
+    job.event('Three');
+    await job.done();
+
+    const sizes = fetchSpy.mock.calls.map(call => JSON.parse(call[1].body).events.length);
+    expect(sizes).toEqual([5, 3, 2, 1, 2]);
+  });
+
+  it('re-queues only the unsent half when a split batch partly fails', async () => {
+    fetchSpy.mockImplementation(async (_url: string, opts: { body: string }) => {
+      const { events } = JSON.parse(opts.body);
+      if (events.length > 2) return { ok: false, status: 413, json: () => Promise.resolve({}) };
+      if (events[0].type === 'job.started') return { ok: true, status: 200, json: () => Promise.resolve({}) };
+      throw new Error('Network error');
+    });
+
+    const client = new Synquer({
+      apiKey: 'sk_dev_test',
+      mode: 'batch',
+      batchInterval: 60_000,
+      maxRetries: 0,
+    });
+
+    const job1 = client.job({ type: 'test' });
+    await job1.done();
+    const job2 = client.job({ type: 'test' });
+    await job2.done();
+    await client.flush();
+
+    fetchSpy.mockResolvedValue({ ok: true, status: 200, json: () => Promise.resolve({}) });
+    await client.flush();
+
+    const last = JSON.parse(fetchSpy.mock.calls.at(-1)[1].body);
+    expect(last.events.map((e: IngestEvent) => e.jobId)).toEqual([job2.id, job2.id]);
+
+    await client.shutdown();
+  });
+
+  // -- Payload size --
+
+  it('splits batches over maxPayloadBytes into several requests', async () => {
+    const transport = new InMemoryTransport();
+    const client = new Synquer({ transport, maxPayloadBytes: 1000 });
+
+    const job = client.job({ type: 'test' });
+    for (let i = 0; i < 10; i++) {
+      job.event({ message: 'x'.repeat(100) });
+    }
+    await job.done();
+
+    expect(transport.batches.length).toBeGreaterThan(1);
+    expect(transport.events).toHaveLength(12);
+    for (const batch of transport.batches) {
+      expect(Buffer.byteLength(JSON.stringify({ events: batch }))).toBeLessThanOrEqual(1000);
+    }
+  });
+
+  it('truncates oversized events and warns through onError', async () => {
+    const onError = vi.fn();
+    const transport = new InMemoryTransport();
+    const client = new Synquer({ transport, maxPayloadBytes: 2000, onError });
+
+    const job = client.job({ type: 'test' });
+    job.event({ message: 'Large', data: { blob: 'x'.repeat(5000) } });
+    await job.done();
+
+    const large = transport.events.find(e => e.data?.message === 'Large')!;
+    expect(large.data).toMatchObject({ truncated: true });
+    expect(onError).toHaveBeenCalledOnce();
+    expect(onError.mock.calls[0][0].message).toContain('truncated');
+  });
+
+  it('still sends truncated events when onError throws', async () => {
+    const transport = new InMemoryTransport();
+    const client = new Synquer({
+      transport,
+      maxPayloadBytes: 2000,
+      onError: () => {
+        throw new Error('Handler bug');
+      },
+    });
+
+    await expect(client.run({ type: 'test' }, job => {
+      job.event({ message: 'Large', data: { blob: 'x'.repeat(5000) } });
+      return 'ok';
+    })).resolves.toBe('ok');
+
+    expect(transport.events.map(e => e.type)).toEqual(['job.started', 'job.event', 'job.done']);
+  });
+
+  it('compresses request bodies with gzip', async () => {
+    const client = new Synquer({ apiKey: 'sk_dev_test', compression: 'gzip' });
+    await client.job({ type: 'test' }).done();
+
+    const opts = fetchSpy.mock.calls[0][1];
+    expect(opts.headers['Content-Encoding']).toBe('gzip');
+    expect(JSON.parse(gunzipSync(opts.body).toString()).events).toHaveLength(2);
+  });
+
+  // -- Circuit breaker --
+
+  it('stops sending while the circuit is open', async () => {
+    fetchSpy.mockRejectedValue(new Error('Network error'));
+    const onStateChange = vi.fn();
+
+    const client = new Synquer({
+      apiKey: 'sk_dev_test',
+      maxRetries: 5,
+      retryPolicy: { baseDelayMs: 1 },
+      circuitBreaker: { failureThreshold: 3, cooldownMs: 60_000, onStateChange },
+    });
+
+    await client.job({ type: 'test' }).done();
+    expect(fetchSpy).toHaveBeenCalledTimes(3);
+    expect(client.circuitState).toBe('open');
+    expect(onStateChange).toHaveBeenCalledWith('open', 'closed');
+
+    await client.job({ type: 'test' }).done();
+    expect(fetchSpy).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not count non-retryable errors towards the circuit', async () => {
+    fetchSpy.mockResolvedValue({ ok: false, status: 400, json: () => Promise.resolve({}) });
+
+    const client = new Synquer({ apiKey: 'sk_dev_test', circuitBreaker: { failureThreshold: 1 } });
+    await client.job({ type: 'test' }).done();
+
+    expect(client.circuitState).toBe('closed');
+  });
+
+  it('buffers events while open and sends them once a probe succeeds', async () => {
+    vi.useFakeTimers();
+    let down = true;
+    const transport = new InMemoryTransport({
+      respond: () => {
+        if (down) throw new Error('Network error');
+      },
+    });
+
+    const client = new Synquer({
+      transport,
+      maxRetries: 0,
+      batchInterval: 100,
+      circuitBreaker: { failureThreshold: 1, cooldownMs: 1000 },
+    });
+
+    await client.job({ type: 'first' }).done();
+    await client.job({ type: 'second' }).done();
+    expect(client.circuitState).toBe('open');
+    expect(transport.batches).toHaveLength(1);
+
+    down = false;
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(client.circuitState).toBe('closed');
+    expect(transport.batches.at(-1)!.map(e => e.type)).toEqual([
+      'job.started', 'job.done', 'job.started', 'job.done',
+    ]);
+
+    await client.shutdown();
+    vi.useRealTimers();
+  });
+
+  it('drops events while open under the drop policy', async () => {
+    const onDrop = vi.fn();
+    fetchSpy.mockRejectedValue(new Error('Network error'));
+
+    const client = new Synquer({
+      apiKey: 'sk_dev_test',
+      maxRetries: 0,
+      onDrop,
+      circuitBreaker: { failureThreshold: 1, whenOpen: 'drop' },
+    });
+
+    await client.job({ type: 'test' }).done();
+
+    expect(onDrop).toHaveBeenCalledWith(expect.any(Array), 'circuit-open');
+    expect(onDrop.mock.calls[0][0]).toHaveLength(2);
+    expect(client.droppedEvents).toBe(2);
+  });
+
+  // -- Non-blocking completion --
+
+  it('returns from done() before the send settles in non-blocking mode', async () => {
+    let resolveSend!: () => void;
+    const transport = new InMemoryTransport({
+      respond: () => new Promise<void>(resolve => { resolveSend = resolve; }),
+    });
+    const client = new Synquer({ transport, nonBlocking: true });
+
+    await client.job({ type: 'test' }).done();
+    expect(client.pending()).toBe(1);
+
+    resolveSend();
+    await client.drain();
+    expect(client.pending()).toBe(0);
+    expect(transport.events).toHaveLength(2);
+  });
+
+  it('passes every send promise to waitUntil', async () => {
+    const waitUntil = vi.fn();
+    fetchSpy.mockRejectedValue(new Error('Network error'));
+    const client = new Synquer({ apiKey: 'sk_dev_test', nonBlocking: true, maxRetries: 0, waitUntil });
+
+    await client.job({ type: 'first' }).done();
+    await client.job({ type: 'second' }).done();
+
+    expect(waitUntil).toHaveBeenCalledTimes(2);
+    await expect(Promise.all(waitUntil.mock.calls.map(call => call[0]))).resolves.toEqual([undefined, undefined]);
+  });
+
+  it('tracks flushes as pending sends', async () => {
+    const waitUntil = vi.fn();
+    const client = new Synquer({ apiKey: 'sk_dev_test', mode: 'batch', batchInterval: 60_000, waitUntil });
+
+    await client.job({ type: 'test' }).done();
+    const flushing = client.flush();
+    expect(client.pending()).toBe(1);
+
+    await flushing;
+    expect(client.pending()).toBe(0);
+    expect(waitUntil).toHaveBeenCalledOnce();
+
+    await client.shutdown();
+  });
+
+  it('waits for in-flight sends on shutdown', async () => {
+    let resolveSend!: () => void;
+    const transport = new InMemoryTransport({
+      respond: () => new Promise<void>(resolve => { resolveSend = resolve; }),
+    });
+    const client = new Synquer({ transport, nonBlocking: true });
+
+    await client.job({ type: 'test' }).done();
+    let done = false;
+    const shutdown = client.shutdown().then(() => { done = true; });
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(done).toBe(false);
+
+    resolveSend();
+    await shutdown;
+    expect(client.pending()).toBe(0);
+  });
+
+  // -- Stats --
+
+  it('counts sent, retried and failed sends in stats()', async () => {
+    fetchSpy
+      .mockRejectedValueOnce(new Error('Network error'))
+      .mockResolvedValueOnce({ ok: true, status: 200, json: () => Promise.resolve({}) });
+
+    const client = new Synquer({ apiKey: 'sk_dev_test', retryPolicy: { baseDelayMs: 1 } });
+    await client.job({ type: 'test' }).done();
+
+    const stats = client.stats();
+    expect(stats).toMatchObject({
+      sentEvents: 2,
+      sendAttempts: 2,
+      retries: 1,
+      failedSends: 0,
+      bufferDepth: 0,
+      pendingSends: 0,
+      circuitState: 'closed',
+    });
+    expect(stats.avgSendLatencyMs).toBeGreaterThanOrEqual(0);
+    expect(stats.lastError).toBeUndefined();
+  });
+
+  it('records the last error and rejected events in stats()', async () => {
+    const responses: Array<BatchResponse | Error> = [
+      { received: 2, processed: 1, errors: [{ index: 0, error: 'Invalid' }] },
+      new TransportError('Bad request', { retryable: false }),
+    ];
+    const transport = new InMemoryTransport({
+      respond: () => {
+        const response = responses.shift()!;
+        if (response instanceof Error) throw response;
+        return response;
+      },
+    });
+
+    const client = new Synquer({ transport });
+    await client.job({ type: 'first' }).done();
+    await client.job({ type: 'second' }).done();
+
+    expect(client.stats()).toMatchObject({ sentEvents: 1, rejectedEvents: 1, failedSends: 1 });
+    expect(client.stats().lastError!.message).toBe('Bad request');
+  });
+
+  it('counts buffered events in batch mode', async () => {
+    const client = new Synquer({ apiKey: 'sk_dev_test', mode: 'batch', batchInterval: 60_000 });
+    await client.job({ type: 'test' }).done();
+
+    expect(client.stats()).toMatchObject({ bufferedEvents: 2, bufferDepth: 2, sentEvents: 0 });
+    await client.shutdown();
+  });
+
+  it('reports stats periodically through onStats', async () => {
+    vi.useFakeTimers();
+    const onStats = vi.fn();
+    const client = new Synquer({ apiKey: 'sk_dev_test', onStats, statsInterval: 1000 });
+
+    await vi.advanceTimersByTimeAsync(2500);
+    expect(onStats).toHaveBeenCalledTimes(2);
+    expect(onStats.mock.calls[0][0]).toMatchObject({ sentEvents: 0 });
+
+    await client.shutdown();
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(onStats).toHaveBeenCalledTimes(2);
+    vi.useRealTimers();
+  });
+
+  it('traces send attempts through the debug logger', async () => {
+    const debug = vi.fn();
+    fetchSpy
+      .mockResolvedValueOnce({ ok: false, status: 503, json: () => Promise.resolve({}) })
+      .mockResolvedValueOnce({ ok: true, status: 200, json: () => Promise.resolve({}) });
+
+    const client = new Synquer({ apiKey: 'sk_dev_test', retryPolicy: { baseDelayMs: 1 }, debug: { debug } });
+    await client.job({ type: 'test' }).done();
+
+    expect(debug).toHaveBeenCalledTimes(2);
+    expect(debug.mock.calls[0]).toEqual([
+      'Synquer: send attempt 1 failed',
+      expect.objectContaining({ attempt: 1, events: 2, status: 503, error: 'Synquer API error 503' }),
+    ]);
+    expect(debug.mock.calls[1][0]).toBe('Synquer: send attempt 2 succeeded');
+    expect(debug.mock.calls[1][1].durationMs).toEqual(expect.any(Number));
+  });
+
+  // -- Shutdown deadline and signals --
+
+  it('reports no unsent events after a successful shutdown', async () => {
+    const client = new Synquer({ apiKey: 'sk_dev_test', mode: 'batch', batchInterval: 60_000 });
+    await client.job({ type: 'test' }).done();
+
+    await expect(client.shutdown()).resolves.toEqual({ unsentEvents: 0 });
+  });
+
+  it('retries the flush until the shutdown deadline', async () => {
+    let failures = 2;
+    const transport = new InMemoryTransport({
+      respond: () => {
+        if (failures-- > 0) throw new Error('Network error');
+      },
+    });
+    const client = new Synquer({
+      transport,
+      mode: 'batch',
+      batchInterval: 60_000,
+      maxRetries: 0,
+      retryPolicy: { baseDelayMs: 1 },
+    });
+    await client.job({ type: 'test' }).done();
+
+    await expect(client.shutdown({ timeoutMs: 5000 })).resolves.toEqual({ unsentEvents: 0 });
+    expect(transport.batches).toHaveLength(3);
+  });
+
+  it('reports events left unsent when the deadline passes', async () => {
+    fetchSpy.mockRejectedValue(new Error('Network error'));
+    const client = new Synquer({
+      apiKey: 'sk_dev_test',
+      mode: 'batch',
+      batchInterval: 60_000,
+      retryPolicy: { baseDelayMs: 10 },
+    });
+    await client.job({ type: 'test' }).done();
+
+    const start = Date.now();
+    await expect(client.shutdown({ timeoutMs: 100 })).resolves.toEqual({ unsentEvents: 2 });
+    expect(Date.now() - start).toBeLessThan(1000);
+  });
+
+  it('counts in-flight sends that outlive the deadline as unsent', async () => {
+    const transport = new InMemoryTransport({ respond: () => new Promise<void>(() => {}) });
+    const client = new Synquer({ transport, nonBlocking: true });
+    await client.job({ type: 'test' }).done();
+
+    await expect(client.shutdown({ timeoutMs: 20 })).resolves.toEqual({ unsentEvents: 2 });
+  });
+
+  it('shuts down on SIGTERM with handleSignals', async () => {
+    const kill = vi.spyOn(process, 'kill').mockImplementation(() => true);
+    const listeners = process.listenerCount('SIGTERM');
+    const transport = new InMemoryTransport();
+    const client = new Synquer({ transport, mode: 'batch', batchInterval: 60_000, handleSignals: true });
+    expect(process.listenerCount('SIGTERM')).toBe(listeners + 1);
+
+    await client.job({ type: 'test' }).done();
+    process.emit('SIGTERM');
+    await client.shutdown();
+
+    expect(transport.events).toHaveLength(2);
+    expect(process.listenerCount('SIGTERM')).toBe(listeners);
+    if (listeners === 0) {
+      expect(kill).toHaveBeenCalledWith(process.pid, 'SIGTERM');
+    }
+  });
+
+  it('removes signal handlers on manual shutdown', async () => {
+    const listeners = process.listenerCount('SIGINT');
+    const client = new Synquer({ apiKey: 'sk_dev_test', handleSignals: { timeoutMs: 1000 } });
+    expect(process.listenerCount('SIGINT')).toBe(listeners + 1);
+
+    await client.shutdown();
+    expect(process.listenerCount('SIGINT')).toBe(listeners);
+  });
 });
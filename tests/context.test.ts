@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { Synquer } from '../src/client.js';
+import { currentJob, event } from '../src/context.js';
+import { InMemoryTransport } from '../src/transport.js';
+
+describe('async job context', () => {
+  it('binds the job to the callback of run()', async () => {
+    const transport = new InMemoryTransport();
+    const client = new Synquer({ transport, asyncContext: true });
+
+    const helper = async () => {
+      await new Promise(resolve => setTimeout(resolve, 1));
+      event('From helper');
+      event({ message: 'Warned', level: 'warn' });
+    };
+
+    await client.run({ type: 'sync' }, async job => {
+      expect(Synquer.currentJob()).toBe(job);
+      await helper();
+    });
+
+    expect(transport.events.filter(e => e.type === 'job.event').map(e => e.data?.message))
+      .toEqual(['From helper', 'Warned']);
+    expect(currentJob()).toBeUndefined();
+  });
+
+  it('does nothing outside a job', () => {
+    expect(() => event('Nowhere')).not.toThrow();
+  });
+
+  it('creates jobs inside the context as children of the current job', async () => {
+    const transport = new InMemoryTransport();
+    const client = new Synquer({ transport, asyncContext: true });
+
+    let childId: string | undefined;
+    const parent = await client.run({ type: 'parent' }, async job => {
+      await client.run({ type: 'child' }, async child => {
+        childId = child.id;
+        expect(currentJob()).toBe(child);
+      });
+      expect(currentJob()).toBe(job);
+      return job;
+    });
+
+    const started = transport.events.find(e => e.jobId === childId && e.type === 'job.started')!;
+    expect(started.parentJobId).toBe(parent.id);
+  });
+
+  it('binds jobs created with job() only inside withJob()', async () => {
+    const transport = new InMemoryTransport();
+    const client = new Synquer({ transport, asyncContext: true });
+
+    const job = client.job({ type: 'request' });
+    event('Unbound');
+    await Synquer.withJob(job, async () => {
+      await Promise.resolve();
+      event('Bound');
+    });
+    await job.done();
+
+    expect(transport.events.map(e => e.type)).toEqual(['job.started', 'job.event', 'job.done']);
+    expect(transport.events[1].data?.message).toBe('Bound');
+    expect(currentJob()).toBeUndefined();
+  });
+
+  it('does not nest jobs created one after the other with job()', async () => {
+    const transport = new InMemoryTransport();
+    const client = new Synquer({ transport, asyncContext: true });
+
+    const a = client.job({ type: 'a' });
+    const b = client.job({ type: 'b' });
+    await a.done();
+    await b.done('ok');
+
+    const started = transport.events.filter(e => e.type === 'job.started');
+    expect(started.map(e => e.parentJobId)).toEqual([undefined, undefined]);
+    expect(transport.events.find(e => e.jobId === b.id && e.type === 'job.done')?.data?.result).toBe('ok');
+    expect(currentJob()).toBeUndefined();
+  });
+
+  it('binds tracked functions', async () => {
+    const transport = new InMemoryTransport();
+    const client = new Synquer({ transport, asyncContext: true });
+
+    const tracked = client.track({ type: 'tracked' }, async () => {
+      event('Inside');
+    });
+    await tracked();
+
+    expect(transport.events.map(e => e.type)).toEqual(['job.started', 'job.event', 'job.done']);
+  });
+
+  it('binds the body of tracked async generators', async () => {
+    const transport = new InMemoryTransport();
+    const client = new Synquer({ transport, asyncContext: true });
+
+    const seen: boolean[] = [];
+    const pages = client.track({ type: 'export' }, async function* (job) {
+      for (let page = 1; page <= 2; page++) {
+        await new Promise(resolve => setTimeout(resolve, 1));
+        seen.push(currentJob() === job);
+        event(`Page ${page}`);
+        yield page;
+      }
+    });
+
+    for await (const page of pages()) {
+      expect(page).toBeGreaterThan(0);
+      expect(currentJob()).toBeUndefined();
+    }
+
+    expect(seen).toEqual([true, true]);
+    expect(transport.events.map(e => e.type)).toEqual(['job.started', 'job.event', 'job.event', 'job.done']);
+  });
+
+  it('leaves the context alone without asyncContext', async () => {
+    const client = new Synquer({ transport: new InMemoryTransport() });
+
+    await client.run({ type: 'sync' }, () => {
+      expect(currentJob()).toBeUndefined();
+    });
+  });
+});
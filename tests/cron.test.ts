@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { CronSchedule } from '../src/cron.js';
+
+const next = (expression: string, after: string) => new CronSchedule(expression).next(new Date(after)).toISOString();
+
+describe('CronSchedule', () => {
+  it('finds the next minute for every-minute schedules', () => {
+    expect(next('* * * * *', '2026-01-01T10:15:30Z')).toBe('2026-01-01T10:16:00.000Z');
+  });
+
+  it('is strictly after the given date', () => {
+    expect(next('0 * * * *', '2026-01-01T10:00:00Z')).toBe('2026-01-01T11:00:00.000Z');
+  });
+
+  it('supports steps, ranges and lists', () => {
+    expect(next('*/15 * * * *', '2026-01-01T10:16:00Z')).toBe('2026-01-01T10:30:00.000Z');
+    expect(next('0 9-17 * * *', '2026-01-01T17:30:00Z')).toBe('2026-01-02T09:00:00.000Z');
+    expect(next('0 6,18 * * *', '2026-01-01T07:00:00Z')).toBe('2026-01-01T18:00:00.000Z');
+    expect(next('5/20 * * * *', '2026-01-01T10:26:00Z')).toBe('2026-01-01T10:45:00.000Z');
+  });
+
+  it('supports month and day names', () => {
+    // 2026-01-01 is a Thursday
+    expect(next('0 8 * * mon', '2026-01-01T00:00:00Z')).toBe('2026-01-05T08:00:00.000Z');
+    expect(next('0 0 1 jul *', '2026-01-01T00:00:00Z')).toBe('2026-07-01T00:00:00.000Z');
+  });
+
+  it('treats 7 as Sunday', () => {
+    expect(next('0 0 * * 7', '2026-01-01T00:00:00Z')).toBe('2026-01-04T00:00:00.000Z');
+  });
+
+  it('supports macros', () => {
+    expect(next('@daily', '2026-01-01T10:00:00Z')).toBe('2026-01-02T00:00:00.000Z');
+    expect(next('@monthly', '2026-01-15T00:00:00Z')).toBe('2026-02-01T00:00:00.000Z');
+  });
+
+  it('matches either day field when both are restricted', () => {
+    // The 15th, or any Monday
+    expect(next('0 0 15 * 1', '2026-01-06T00:00:00Z')).toBe('2026-01-12T00:00:00.000Z');
+    expect(next('0 0 15 * 1', '2026-01-12T00:00:00Z')).toBe('2026-01-15T00:00:00.000Z');
+  });
+
+  it('skips months without the day', () => {
+    expect(next('0 0 31 * *', '2026-02-01T00:00:00Z')).toBe('2026-03-31T00:00:00.000Z');
+    expect(next('0 0 29 2 *', '2026-01-01T00:00:00Z')).toBe('2028-02-29T00:00:00.000Z');
+  });
+
+  it('rejects invalid expressions', () => {
+    expect(() => new CronSchedule('* * * *')).toThrow('expected 5 fields');
+    expect(() => new CronSchedule('60 * * * *')).toThrow("invalid cron field '60'");
+    expect(() => new CronSchedule('*/0 * * * *')).toThrow('invalid cron field');
+    expect(() => new CronSchedule('0 0 * foo *')).toThrow('invalid cron field');
+    expect(() => new CronSchedule('0 0 10-5 * *')).toThrow('invalid cron field');
+  });
+
+  it('throws for schedules that never run', () => {
+    expect(() => new CronSchedule('0 0 30 2 *').next(new Date('2026-01-01T00:00:00Z'))).toThrow('never runs');
+  });
+});
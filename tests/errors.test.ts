@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import { serializeError } from '../src/errors.js';
+
+describe('serializeError', () => {
+  it('serializes strings and other values as a message', () => {
+    expect(serializeError('Something went wrong')).toEqual({ message: 'Something went wrong' });
+    expect(serializeError(42)).toEqual({ message: '42' });
+  });
+
+  it('keeps name, message, stack, code and custom fields', () => {
+    const error = Object.assign(new TypeError('Bad row'), { code: 'E_ROW', row: 12, retry: () => {} });
+    const serialized = serializeError(error);
+
+    expect(serialized).toEqual({
+      name: 'TypeError',
+      message: 'Bad row',
+      stack: expect.stringContaining('Bad row'),
+      code: 'E_ROW',
+      row: 12,
+    });
+  });
+
+  it('walks cause chains', () => {
+    const root = new Error('ECONNRESET');
+    const error = new Error('ERP call failed', { cause: new Error('Socket closed', { cause: root }) });
+    const serialized = serializeError(error);
+
+    expect(serialized.cause).toEqual(expect.objectContaining({
+      message: 'Socket closed',
+      cause: expect.objectContaining({ message: 'ECONNRESET' }),
+    }));
+  });
+
+  it('serializes non-error causes', () => {
+    const serialized = serializeError(new Error('Failed', { cause: { reason: 'quota' } }));
+    expect(serialized.cause).toEqual({ reason: 'quota' });
+  });
+
+  it('serializes AggregateError.errors', () => {
+    const error = new AggregateError([new Error('Order 1 failed'), 'Order 2 failed'], 'Batch failed');
+    const serialized = serializeError(error);
+
+    expect(serialized.name).toBe('AggregateError');
+    expect(serialized.errors).toEqual([
+      expect.objectContaining({ message: 'Order 1 failed' }),
+      'Order 2 failed',
+    ]);
+  });
+
+  it('protects against circular references', () => {
+    const error = new Error('Loop') as Error & { self?: unknown; details?: Record<string, unknown> };
+    error.self = error;
+    error.details = { owner: error };
+    error.cause = error;
+
+    const serialized = serializeError(error);
+    expect(serialized.self).toBe('[Circular]');
+    expect(serialized.details).toEqual({ owner: '[Circular]' });
+    expect(serialized.cause).toBe('[Circular]');
+  });
+
+  it('extracts HTTP details from axios-style errors', () => {
+    const error = Object.assign(new Error('Request failed with status code 422'), {
+      isAxiosError: true,
+      config: { method: 'post', url: 'https://erp.example.com/invoices', headers: {} },
+      request: { socket: {} },
+      response: { status: 422, statusText: 'Unprocessable Entity', data: { error: 'Invalid VAT' } },
+    });
+
+    const serialized = serializeError(error);
+    expect(serialized.http).toEqual({
+      status: 422,
+      method: 'POST',
+      url: 'https://erp.example.com/invoices',
+      statusText: 'Unprocessable Entity',
+      body: { error: 'Invalid VAT' },
+    });
+    expect(serialized.isAxiosError).toBe(true);
+    expect(serialized).not.toHaveProperty('config');
+    expect(serialized).not.toHaveProperty('request');
+    expect(serialized).not.toHaveProperty('response');
+  });
+
+  it('keeps request details but no headers or sockets for network errors', () => {
+    const error = Object.assign(new Error('connect ECONNREFUSED 127.0.0.1:443'), {
+      code: 'ECONNREFUSED',
+      isAxiosError: true,
+      config: { method: 'get', url: 'https://erp.example.com/stock', headers: { Authorization: 'Bearer secret' } },
+      request: { socket: { remoteAddress: '127.0.0.1' } },
+    });
+
+    const serialized = serializeError(error);
+    expect(serialized.http).toEqual({ method: 'GET', url: 'https://erp.example.com/stock' });
+    expect(serialized.code).toBe('ECONNREFUSED');
+    expect(serialized).not.toHaveProperty('config');
+    expect(serialized).not.toHaveProperty('request');
+    expect(JSON.stringify(serialized)).not.toContain('Bearer');
+  });
+
+  it('extracts HTTP details from fetch-style errors', () => {
+    const error = Object.assign(new Error('HTTP 503'), {
+      response: { status: 503, statusText: 'Service Unavailable', url: 'https://erp.example.com/stock', body: null },
+      options: { method: 'get' },
+    });
+
+    expect(serializeError(error).http).toEqual({
+      status: 503,
+      method: 'GET',
+      url: 'https://erp.example.com/stock',
+      statusText: 'Service Unavailable',
+    });
+  });
+
+  it('extracts a bare status code', () => {
+    const error = Object.assign(new Error('Not found'), { statusCode: 404 });
+    expect(serializeError(error).http).toEqual({ status: 404 });
+  });
+
+  it('runs custom extractors on every error in the chain', () => {
+    class ErpError extends Error {
+      constructor(message: string, readonly erpCode: string) {
+        super(message);
+        this.name = 'ErpError';
+      }
+    }
+
+    const error = new Error('Sync failed', { cause: new ErpError('Rejected', 'VAT-01') });
+    const serialized = serializeError(error, [
+      err => (err instanceof ErpError ? { erp: { code: err.erpCode } } : undefined),
+    ]);
+
+    expect(serialized).not.toHaveProperty('erp');
+    expect(serialized.cause).toEqual(expect.objectContaining({ name: 'ErpError', erp: { code: 'VAT-01' } }));
+  });
+});
@@ -168,4 +168,399 @@ describe('Job', () => {
       'job.done',
     ]);
   });
+
+  // -- Child jobs --
+
+  it('creates child jobs linked by parentJobId', () => {
+    const job = new Job('parent-id', { type: 'order_sync' }, sendFn);
+    const child = job.child({ type: 'fetch_customer', entity: { type: 'customer', id: 'c1' } });
+
+    expect(child.id).not.toBe(job.id);
+    expect(child.parentJobId).toBe('parent-id');
+
+    const startEvent = child.getEvents()[0];
+    expect(startEvent.parentJobId).toBe('parent-id');
+    expect(startEvent.data?.jobType).toBe('fetch_customer');
+    expect(startEvent.data?.entityId).toBe('c1');
+  });
+
+  it('waits for children before completing the parent', async () => {
+    const job = new Job('parent-id', { type: 'order_sync' }, sendFn);
+    const child = job.child({ type: 'create_invoice' });
+
+    let parentDone = false;
+    const pending = job.done().then(() => { parentDone = true; });
+
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(parentDone).toBe(false);
+
+    await child.done();
+    await pending;
+
+    expect(parentDone).toBe(true);
+    expect(sendFn).toHaveBeenCalledTimes(2);
+    expect(sendFn.mock.calls[0][0][0].jobId).toBe(child.id);
+    expect(sendFn.mock.calls[1][0][0].jobId).toBe('parent-id');
+  });
+
+  it('abandons children still open once childTimeoutMs runs out', async () => {
+    const job = new Job('parent-id', { type: 'order_sync' }, sendFn, { childTimeoutMs: 20 });
+    const slow = job.child({ type: 'slow' });
+    const child = job.child({ type: 'forgotten' });
+    setTimeout(() => slow.done(), 5);
+
+    await job.done();
+
+    expect(child.completed).toBe(true);
+    expect(child.status).toBe('timeout');
+    expect(slow.status).toBe('done');
+    const [, childEvents, parentEvents] = sendFn.mock.calls.map(call => call[0] as IngestEvent[]);
+    expect(childEvents.map(e => e.type)).toEqual(['job.started', 'job.timeout']);
+    expect(childEvents[1].data?.reason).toBe('abandoned');
+    expect(parentEvents.at(-1)?.data?.children).toEqual(
+      expect.objectContaining({ statuses: { done: 1, timeout: 1 } }),
+    );
+  });
+
+  it('rolls up child statuses and durations', async () => {
+    const job = new Job('parent-id', { type: 'order_sync' }, sendFn);
+    await job.child({ type: 'fetch_customer' }).done();
+    await job.child({ type: 'create_invoice' }).done();
+    await job.child({ type: 'push_erp' }).failed(new Error('ERP down'));
+    await job.done();
+
+    const doneEvent = capturedEvents[capturedEvents.length - 1];
+    expect(doneEvent.type).toBe('job.done');
+    expect(doneEvent.data?.children).toEqual({
+      count: 3,
+      statuses: { done: 2, failed: 1 },
+      durationMs: expect.any(Number),
+    });
+  });
+
+  // -- Expiry --
+
+  it('expires an open job with a job.timeout event', async () => {
+    const job = new Job('test-id', { type: 'test' }, sendFn);
+    job.child({ type: 'never_finishes' });
+    await job.expire('abandoned');
+
+    expect(job.completed).toBe(true);
+    expect(job.status).toBe('timeout');
+    const timeoutEvent = capturedEvents[1];
+    expect(timeoutEvent.type).toBe('job.timeout');
+    expect(timeoutEvent.data?.reason).toBe('abandoned');
+    expect(timeoutEvent.data?.durationMs).toBeTypeOf('number');
+  });
+
+  it('does not expire a completed job', async () => {
+    const job = new Job('test-id', { type: 'test' }, sendFn);
+    await job.done();
+    await job.expire('timeout', 1000);
+
+    expect(sendFn).toHaveBeenCalledOnce();
+    expect(job.status).toBe('done');
+  });
+
+  // -- Levels and progress --
+
+  it('records level, progress and code', () => {
+    const job = new Job('test-id', { type: 'test' }, sendFn);
+    job.event({ message: 'Sending to ERP', level: 'warn', progress: 75, code: 'ERP_SLOW', data: { erpId: 'ERP-123' } });
+
+    expect(job.getEvents()[1].data).toEqual({
+      message: 'Sending to ERP',
+      level: 'warn',
+      progress: 75,
+      code: 'ERP_SLOW',
+      erpId: 'ERP-123',
+    });
+  });
+
+  it('logs events through level helpers', () => {
+    const job = new Job('test-id', { type: 'test' }, sendFn);
+    job.debug('Payload built', { size: 3 });
+    job.info('Fetching');
+    job.warn('Slow response');
+    job.error('Partial failure');
+
+    const levels = job.getEvents().slice(1).map(e => e.data?.level);
+    expect(levels).toEqual(['debug', 'info', 'warn', 'error']);
+    expect(job.getEvents()[1].data?.size).toBe(3);
+  });
+
+  it('drops events below minLevel', () => {
+    const job = new Job('test-id', { type: 'test' }, sendFn, { minLevel: 'info' });
+    job.debug('Too noisy');
+    job.event('Defaults to info');
+    job.warn('Kept');
+
+    const messages = job.getEvents().slice(1).map(e => e.data?.message);
+    expect(messages).toEqual(['Defaults to info', 'Kept']);
+  });
+
+  it('reports progress as current out of total', () => {
+    const job = new Job('test-id', { type: 'test' }, sendFn);
+    job.progress(40);
+    job.progress(3, 4);
+
+    expect(job.getEvents()[1].data).toEqual({ progress: 40 });
+    expect(job.getEvents()[2].data).toEqual({ progress: 75, current: 3, total: 4 });
+  });
+
+  it('clamps or drops invalid progress values and reports them instead of throwing', () => {
+    const onInvalid = vi.fn();
+    const job = new Job('test-id', { type: 'test' }, sendFn, { onInvalid });
+
+    job.event({ progress: 120 });
+    job.progress(Number.NaN);
+    job.progress(5, 4);
+    job.progress(1, 0);
+
+    const events = job.getEvents();
+    expect(events).toHaveLength(4);
+    expect(events[1].data).toEqual({ progress: 100 });
+    expect(events[2].data).toEqual({});
+    expect(events[3].data).toEqual({ progress: 100, current: 5, total: 4 });
+    expect(onInvalid.mock.calls.map(call => call[0].message)).toEqual([
+      'Synquer: progress must be between 0 and 100, got 120',
+      'Synquer: progress must be between 0 and 100, got NaN',
+      'Synquer: progress must be between 0 and 4, got 5',
+      'Synquer: progress total must be a positive number, got 0',
+    ]);
+  });
+
+  // -- Correlation and resume --
+
+  it('carries externalId on every event', async () => {
+    const job = new Job('test-id', { type: 'order_sync', externalId: 'order-1001' }, sendFn);
+    job.event('Processing');
+    await job.done();
+
+    expect(capturedEvents.map(e => e.externalId)).toEqual(['order-1001', 'order-1001', 'order-1001']);
+  });
+
+  it('records job.resumed for resumed jobs without a local duration', async () => {
+    const job = new Job('test-id', { type: '', externalId: 'order-1001' }, sendFn, { resumed: true });
+    job.event('Invoice created');
+    await job.done();
+
+    expect(capturedEvents.map(e => e.type)).toEqual(['job.resumed', 'job.event', 'job.done']);
+    expect(capturedEvents[0].data).toEqual({});
+    expect(capturedEvents[2].data?.durationMs).toBeUndefined();
+  });
+
+  it('starts children of a resumed job normally', () => {
+    const job = new Job('test-id', { type: '', externalId: 'order-1001' }, sendFn, { resumed: true });
+    const child = job.child({ type: 'push_erp' });
+
+    expect(child.getEvents()[0].type).toBe('job.started');
+  });
+
+  it('hands off a job without a terminal event', async () => {
+    const job = new Job('test-id', { type: 'order_sync', externalId: 'order-1001' }, sendFn);
+    job.event('Queued for worker');
+    await job.handoff();
+    job.event('Ignored');
+    await job.done();
+
+    expect(sendFn).toHaveBeenCalledOnce();
+    expect(capturedEvents.map(e => e.type)).toEqual(['job.started', 'job.event']);
+    expect(job.status).toBeUndefined();
+  });
+
+  it('requires an externalId to hand off a job', async () => {
+    const job = new Job('test-id', { type: 'order_sync' }, sendFn);
+    await expect(job.handoff()).rejects.toThrow('externalId is required');
+    expect(job.completed).toBe(false);
+  });
+
+  // -- Retry tracking --
+
+  it('records explicit retries and the attempt count', async () => {
+    const job = new Job('test-id', { type: 'test' }, sendFn);
+    job.retrying(new Error('ERP timeout'), { attempt: 1, delayMs: 500 });
+    job.retrying('ERP timeout', { attempt: 2 });
+    await job.done();
+
+    const retries = capturedEvents.filter(e => e.type === 'job.retry');
+    expect(retries.map(e => e.data?.attempt)).toEqual([1, 2]);
+    expect(retries[0].data?.delayMs).toBe(500);
+    expect(retries[0].data?.error).toEqual(expect.objectContaining({ message: 'ERP timeout' }));
+    expect(capturedEvents.at(-1)?.data?.attempts).toBe(2);
+  });
+
+  it('retries with attempt() until it succeeds', async () => {
+    const job = new Job('test-id', { type: 'test' }, sendFn);
+    const fn = vi.fn()
+      .mockRejectedValueOnce(new Error('Flaky'))
+      .mockRejectedValueOnce(new Error('Flaky again'))
+      .mockResolvedValueOnce('ok');
+
+    await expect(job.attempt(fn, { maxAttempts: 3, delayMs: attempt => attempt })).resolves.toBe('ok');
+    expect(fn.mock.calls.map(call => call[0])).toEqual([1, 2, 3]);
+    expect(job.completed).toBe(false);
+
+    await job.done('ok');
+
+    expect(capturedEvents.map(e => e.type)).toEqual(['job.started', 'job.retry', 'job.retry', 'job.done']);
+    expect(capturedEvents[2].data?.delayMs).toBe(2);
+    expect(capturedEvents[3].data?.attempts).toBe(3);
+  });
+
+  it('rethrows the last error from attempt() without completing the job', async () => {
+    const job = new Job('test-id', { type: 'test' }, sendFn);
+    const fn = vi.fn().mockRejectedValue(new Error('Down'));
+
+    await expect(job.attempt(fn, { maxAttempts: 2 })).rejects.toThrow('Down');
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(job.completed).toBe(false);
+    expect(job.getEvents().filter(e => e.type === 'job.retry')).toHaveLength(1);
+  });
+
+  it('stops retrying when shouldRetry returns false', async () => {
+    const job = new Job('test-id', { type: 'test' }, sendFn);
+    const fn = vi.fn().mockRejectedValue(new Error('Invalid VAT'));
+
+    await expect(job.attempt(fn, { maxAttempts: 5, shouldRetry: () => false })).rejects.toThrow('Invalid VAT');
+    expect(fn).toHaveBeenCalledOnce();
+    expect(job.getEvents()).toHaveLength(1);
+  });
+
+  // -- Metrics --
+
+  it('sends counters, gauges and item throughput in the terminal event', async () => {
+    const job = new Job('test-id', { type: 'product_sync' }, sendFn);
+
+    job.items({ total: 500 });
+    job.items({ processed: 300, failed: 5 });
+    job.items({ processed: 180, failed: 3, skipped: 12 });
+    job.count('api_calls');
+    job.count('api_calls', 4);
+    job.gauge('queue_depth', 40);
+    job.gauge('queue_depth', 12);
+    await job.done();
+
+    expect(capturedEvents).toHaveLength(2);
+    expect(capturedEvents[1].data?.metrics).toEqual({
+      counters: { api_calls: 5 },
+      gauges: { queue_depth: 12 },
+      items: { total: 500, processed: 480, failed: 8, skipped: 12 },
+    });
+  });
+
+  it('includes metrics when the job fails', async () => {
+    const job = new Job('test-id', { type: 'test' }, sendFn);
+    job.count('rows');
+    await job.failed(new Error('Boom'));
+
+    expect(capturedEvents[1].data?.metrics).toEqual({ counters: { rows: 1 } });
+  });
+
+  it('omits metrics when none were recorded', async () => {
+    const job = new Job('test-id', { type: 'test' }, sendFn);
+    await job.done();
+
+    expect(capturedEvents[1].data).not.toHaveProperty('metrics');
+  });
+
+  it('ignores invalid metric values and reports them instead of throwing', async () => {
+    const onInvalid = vi.fn();
+    const job = new Job('test-id', { type: 'test' }, sendFn, { onInvalid });
+
+    job.count('rows', NaN);
+    job.gauge('lag', Infinity);
+    job.items({ processed: -1, failed: 2 });
+    job.count('');
+    await job.done();
+
+    expect(onInvalid.mock.calls.map(([err]) => err.message)).toEqual([
+      "Synquer: metric 'rows' must be a finite number, got NaN",
+      "Synquer: metric 'lag' must be a finite number, got Infinity",
+      "Synquer: item count 'processed' must be a non-negative number, got -1",
+      'Synquer: metric name is required',
+    ]);
+    expect(capturedEvents[1].data?.metrics).toEqual({
+      items: { processed: 0, failed: 2, skipped: 0 },
+    });
+  });
+
+  // -- Item outcomes --
+
+  it('lists item outcomes with a per-status breakdown', async () => {
+    const job = new Job('test-id', { type: 'order_sync' }, sendFn);
+
+    job.item({ type: 'order', id: '1', ref: '#1001' }).done();
+    job.item({ type: 'order', id: '2' }).failed(new Error('Invalid address'));
+    job.item({ type: 'order', id: '3' }).skipped('Already synced');
+    await job.done();
+
+    const outcomes = capturedEvents[1].data?.outcomes as Record<string, any>;
+    expect(outcomes.count).toBe(3);
+    expect(outcomes.statuses).toEqual({ done: 1, failed: 1, skipped: 1 });
+    expect(outcomes.items).toEqual([
+      { entityType: 'order', entityId: '1', entityRef: '#1001', status: 'done', durationMs: expect.any(Number) },
+      expect.objectContaining({ entityId: '2', status: 'failed', error: expect.objectContaining({ message: 'Invalid address' }) }),
+      expect.objectContaining({ entityId: '3', status: 'skipped', reason: 'Already synced' }),
+    ]);
+    expect(outcomes).not.toHaveProperty('omitted');
+  });
+
+  it('records only the first outcome of an item', async () => {
+    const job = new Job('test-id', { type: 'test' }, sendFn);
+    const item = job.item({ type: 'order', id: '1' });
+
+    item.failed(new Error('Boom'));
+    item.done();
+    expect(item.ended).toBe(true);
+    await job.done();
+
+    expect((capturedEvents[1].data?.outcomes as Record<string, any>).statuses).toEqual({ failed: 1 });
+  });
+
+  it('caps listed items and keeps failed ones over the cap', async () => {
+    const job = new Job('test-id', { type: 'test', maxItems: 3 }, sendFn);
+
+    for (let i = 1; i <= 5; i++) {
+      job.item({ type: 'order', id: String(i) }).done();
+    }
+    job.item({ type: 'order', id: '6' }).failed(new Error('Boom'));
+    await job.done();
+
+    const outcomes = capturedEvents[1].data?.outcomes as Record<string, any>;
+    expect(outcomes.count).toBe(6);
+    expect(outcomes.statuses).toEqual({ done: 5, failed: 1 });
+    expect(outcomes.omitted).toBe(3);
+    expect(outcomes.items.map((item: { entityId: string }) => item.entityId)).toEqual(['2', '3', '6']);
+  });
+
+  it('ignores items that end after the job completed', async () => {
+    const job = new Job('test-id', { type: 'test' }, sendFn);
+    const item = job.item({ type: 'order', id: '1' });
+    await job.done();
+
+    item.done();
+    expect(capturedEvents[1].data).not.toHaveProperty('outcomes');
+  });
+
+  // -- Flush and heartbeat --
+
+  it('sends events early with flush() and not again on completion', async () => {
+    const batches: IngestEvent[][] = [];
+    const job = new Job('test-id', { type: 'test' }, async events => {
+      batches.push(events);
+    });
+
+    await job.flush();
+    job.event('Working');
+    await job.heartbeat({ rows: 10 });
+    await job.done();
+
+    expect(batches.map(batch => batch.map(e => e.type))).toEqual([
+      ['job.started'],
+      ['job.event', 'job.heartbeat'],
+      ['job.done'],
+    ]);
+    expect(batches[1]![1]!.data).toEqual({ rows: 10 });
+  });
 });
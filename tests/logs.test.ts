@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Writable } from 'node:stream';
+import pino from 'pino';
+import winston from 'winston';
+import { Synquer } from '../src/client.js';
+import { captureConsole, createPinoDestination, SynquerWinstonTransport } from '../src/logs.js';
+import { InMemoryTransport } from '../src/transport.js';
+
+const setup = () => {
+  const transport = new InMemoryTransport();
+  const client = new Synquer({ transport, asyncContext: true });
+  const logged = () => transport.events.filter(e => e.type === 'job.event');
+  return { client, logged };
+};
+
+const sink = () => {
+  const lines: string[] = [];
+  const stream = new Writable({
+    write(chunk, _encoding, callback) {
+      lines.push(chunk.toString());
+      callback();
+    },
+  });
+  return { lines, stream };
+};
+
+describe('createPinoDestination', () => {
+  it('records log lines on the current job next to the normal output', async () => {
+    const { client, logged } = setup();
+    const output = sink();
+    const logger = pino(
+      { level: 'debug' },
+      pino.multistream([
+        { level: 'debug', stream: output.stream },
+        { level: 'debug', stream: createPinoDestination() },
+      ]),
+    );
+
+    logger.info('Outside any job');
+    await client.run({ type: 'sync' }, async () => {
+      logger.info({ orderId: 'ord_1' }, 'Order fetched');
+      logger.warn('Slow response');
+      logger.debug('Details');
+      logger.error(new Error('Boom'));
+    });
+
+    expect(output.lines).toHaveLength(5);
+    const events = logged();
+    expect(events.map(e => e.data?.level)).toEqual(['info', 'warn', 'debug', 'error']);
+    expect(events[0]!.data).toMatchObject({ message: 'Order fetched', orderId: 'ord_1' });
+    expect(events[0]!.data).not.toHaveProperty('pid');
+    expect(events[3]!.data).toMatchObject({ message: 'Boom', err: { message: 'Boom' } });
+  });
+});
+
+describe('SynquerWinstonTransport', () => {
+  it('records log entries on the current job next to other transports', async () => {
+    const { client, logged } = setup();
+    const output = sink();
+    const logger = winston.createLogger({
+      level: 'debug',
+      format: winston.format.combine(winston.format.colorize(), winston.format.simple()),
+      transports: [new winston.transports.Stream({ stream: output.stream }), new SynquerWinstonTransport()],
+    });
+
+    await client.run({ type: 'sync' }, async () => {
+      logger.info('Order fetched', { orderId: 'ord_1' });
+      logger.warn('Slow response');
+      logger.debug('Details');
+      await new Promise(resolve => setImmediate(resolve));
+    });
+
+    expect(output.lines).toHaveLength(3);
+    const events = logged();
+    expect(events.map(e => e.data?.level)).toEqual(['info', 'warn', 'debug']);
+    expect(events[0]!.data).toMatchObject({ message: 'Order fetched', orderId: 'ord_1' });
+  });
+
+  it('uses the job from getJob', async () => {
+    const transport = new InMemoryTransport();
+    const client = new Synquer({ transport });
+    const job = client.job({ type: 'sync' });
+    const logger = winston.createLogger({ transports: [new SynquerWinstonTransport({ getJob: () => job })] });
+
+    logger.error('Failed to fetch');
+    await new Promise(resolve => setImmediate(resolve));
+    await job.done();
+
+    expect(transport.events[1]!.data).toMatchObject({ message: 'Failed to fetch', level: 'error' });
+  });
+});
+
+describe('captureConsole', () => {
+  let restore: (() => void) | undefined;
+
+  afterEach(() => {
+    restore?.();
+    restore = undefined;
+    vi.restoreAllMocks();
+  });
+
+  it('records console calls on the current job and still prints them', async () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { client, logged } = setup();
+    restore = captureConsole();
+
+    console.log('Outside');
+    await client.run({ type: 'sync' }, async () => {
+      console.log('Fetched %d orders', 3);
+      console.warn('Slow', { ms: 900 });
+    });
+
+    expect(log).toHaveBeenCalledTimes(2);
+    expect(warn).toHaveBeenCalledOnce();
+    expect(logged().map(e => [e.data?.message, e.data?.level])).toEqual([
+      ['Fetched 3 orders', 'info'],
+      ['Slow { ms: 900 }', 'warn'],
+    ]);
+  });
+
+  it('restores the original methods', () => {
+    const original = console.error;
+    restore = captureConsole();
+    expect(console.error).not.toBe(original);
+
+    restore();
+    restore = undefined;
+    expect(console.error).toBe(original);
+  });
+});
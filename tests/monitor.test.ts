@@ -0,0 +1,117 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { Synquer } from '../src/client.js';
+import { InMemoryTransport } from '../src/transport.js';
+
+describe('Monitor', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('checks in when a run starts and when it finishes', async () => {
+    vi.useFakeTimers({ now: new Date('2026-01-01T03:00:05Z') });
+    const transport = new InMemoryTransport();
+    const client = new Synquer({ transport });
+    const monitor = client.monitor('nightly_sync', { schedule: '0 3 * * *', maxRuntimeMs: 60_000 });
+
+    const result = await monitor.run(async job => {
+      expect(transport.batches).toHaveLength(1);
+      job.event('Syncing');
+      return 'ok';
+    });
+
+    expect(result).toBe('ok');
+    expect(transport.batches.map(batch => batch.map(e => e.type))).toEqual([
+      ['job.started'],
+      ['job.event', 'job.done'],
+    ]);
+    expect(transport.batches[0]![0]!.data).toMatchObject({
+      jobType: 'nightly_sync',
+      monitor: {
+        name: 'nightly_sync',
+        schedule: '0 3 * * *',
+        nextRunAt: new Date('2026-01-02T03:00:00Z').getTime(),
+        maxRuntimeMs: 60_000,
+      },
+    });
+  });
+
+  it('sends heartbeats while a run is in progress', async () => {
+    vi.useFakeTimers();
+    const transport = new InMemoryTransport();
+    const client = new Synquer({ transport });
+    const monitor = client.monitor('sync', { schedule: '@hourly', heartbeatIntervalMs: 1000 });
+
+    const run = monitor.run(() => new Promise(resolve => setTimeout(resolve, 2500)));
+    await vi.advanceTimersByTimeAsync(2500);
+    await run;
+    await vi.advanceTimersByTimeAsync(2000);
+
+    expect(transport.events.map(e => e.type)).toEqual([
+      'job.started', 'job.heartbeat', 'job.heartbeat', 'job.done',
+    ]);
+  });
+
+  it('times out runs that exceed maxRuntimeMs', async () => {
+    vi.useFakeTimers();
+    const transport = new InMemoryTransport();
+    const client = new Synquer({ transport });
+    const monitor = client.monitor('sync', { schedule: '@hourly', maxRuntimeMs: 1000 });
+
+    const run = monitor.run(() => new Promise(resolve => setTimeout(resolve, 5000)));
+    await vi.advanceTimersByTimeAsync(1000);
+
+    const timeout = transport.events.at(-1)!;
+    expect(timeout.type).toBe('job.timeout');
+    expect(timeout.data).toMatchObject({ reason: 'timeout', timeoutMs: 1000 });
+
+    await vi.advanceTimersByTimeAsync(4000);
+    await run;
+    expect(transport.events.at(-1)!.type).toBe('job.timeout');
+  });
+
+  it('marks the run failed and rethrows', async () => {
+    const transport = new InMemoryTransport();
+    const client = new Synquer({ transport });
+    const monitor = client.monitor('sync', { schedule: '@daily' });
+
+    await expect(monitor.run(() => {
+      throw new Error('Boom');
+    })).rejects.toThrow('Boom');
+
+    expect(transport.events.at(-1)!.type).toBe('job.failed');
+  });
+
+  it('is never sampled out', async () => {
+    const transport = new InMemoryTransport();
+    const client = new Synquer({ transport, sampling: { '*': { rate: 0 } } });
+
+    await client.monitor('sync', { schedule: '@daily' }).run(() => 'ok');
+
+    expect(transport.events.map(e => e.type)).toEqual(['job.started', 'job.done']);
+  });
+
+  it('only checks in with the run itself, not its children', async () => {
+    const transport = new InMemoryTransport();
+    const client = new Synquer({ transport });
+
+    let childId: string | undefined;
+    await client.monitor('sync', { schedule: '@daily' }).run(async job => {
+      const child = job.child({ type: 'fetch_orders' });
+      childId = child.id;
+      await child.done();
+    });
+
+    const started = transport.events.filter(e => e.type === 'job.started');
+    expect(started).toHaveLength(2);
+    expect(started.find(e => e.jobId === childId)?.data).not.toHaveProperty('monitor');
+    expect(started.find(e => e.jobId !== childId)?.data).toHaveProperty('monitor');
+  });
+
+  it('computes the next run locally', () => {
+    const client = new Synquer({ transport: new InMemoryTransport() });
+    const monitor = client.monitor('sync', { schedule: '*/10 * * * *' });
+
+    expect(monitor.nextRun(new Date('2026-01-01T10:01:00Z')).toISOString()).toBe('2026-01-01T10:10:00.000Z');
+    expect(() => client.monitor('sync', { schedule: 'nope' })).toThrow('invalid cron expression');
+  });
+});
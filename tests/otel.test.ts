@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { context, trace, SpanStatusCode } from '@opentelemetry/api';
+import { AsyncHooksContextManager } from '@opentelemetry/context-async-hooks';
+import { BasicTracerProvider, InMemorySpanExporter, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-base';
+import { Synquer } from '../src/client.js';
+import { OpenTelemetryBridge } from '../src/otel.js';
+import { InMemoryTransport } from '../src/transport.js';
+
+describe('OpenTelemetryBridge', () => {
+  const exporter = new InMemorySpanExporter();
+  const provider = new BasicTracerProvider();
+  provider.addSpanProcessor(new SimpleSpanProcessor(exporter));
+  const tracer = provider.getTracer('synquer-test');
+  const contextManager = new AsyncHooksContextManager();
+
+  let transport: InMemoryTransport;
+
+  beforeAll(() => {
+    context.setGlobalContextManager(contextManager.enable());
+  });
+
+  afterAll(() => {
+    context.disable();
+  });
+
+  beforeEach(() => {
+    exporter.reset();
+    transport = new InMemoryTransport();
+  });
+
+  it('exports a job as a span with events', async () => {
+    const client = new Synquer({ transport, plugins: [new OpenTelemetryBridge({ tracer })] });
+
+    const job = client.job({ type: 'order_sync', entity: { type: 'order', id: '1001' } });
+    job.event({ message: 'Fetching order', data: { source: 'shopify' } });
+    await job.done();
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span?.name).toBe('synquer.job order_sync');
+    expect(span?.attributes).toEqual(expect.objectContaining({
+      'synquer.job.id': job.id,
+      'synquer.job.type': 'order_sync',
+      'synquer.entity.id': '1001',
+      'synquer.job.status': 'done',
+    }));
+    expect(span?.events.map(e => e.name)).toEqual(['Fetching order']);
+    expect(span?.events[0]?.attributes).toEqual({ source: 'shopify' });
+    expect(span?.status.code).toBe(SpanStatusCode.OK);
+
+    const trace = transport.events[0].data?.trace as Record<string, string>;
+    expect(trace.traceId).toBe(span?.spanContext().traceId);
+    expect(trace.spanId).toBe(span?.spanContext().spanId);
+  });
+
+  it('only sees redacted event data', async () => {
+    const client = new Synquer({
+      transport,
+      redact: { keys: ['password'] },
+      plugins: [new OpenTelemetryBridge({ tracer })],
+    });
+
+    const job = client.job({ type: 'order_sync' });
+    job.event({ message: 'Logging in', data: { password: 'hunter2' } });
+    await job.done();
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span?.events[0]?.attributes).toEqual({ password: '[REDACTED]' });
+    expect(transport.events[1]?.data?.password).toBe('[REDACTED]');
+  });
+
+  it('sets an error status for failed jobs', async () => {
+    const client = new Synquer({ transport, plugins: [new OpenTelemetryBridge({ tracer })] });
+
+    await client.job({ type: 'order_sync' }).failed(new Error('ERP down'));
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span?.status).toEqual({ code: SpanStatusCode.ERROR, message: 'ERP down' });
+    expect(span?.events[0]?.name).toBe('exception');
+  });
+
+  it('parents job spans under the active span and child jobs under their parent', async () => {
+    const client = new Synquer({ transport, plugins: [new OpenTelemetryBridge({ tracer, api: { trace, context } })] });
+
+    let requestSpanId = '';
+    await tracer.startActiveSpan('http.request', async (requestSpan) => {
+      requestSpanId = requestSpan.spanContext().spanId;
+
+      const job = client.job({ type: 'order_sync' });
+      const child = job.child({ type: 'create_invoice' });
+      await child.done();
+      await job.done();
+      requestSpan.end();
+    });
+
+    const spans = exporter.getFinishedSpans();
+    const jobSpan = spans.find(s => s.name === 'synquer.job order_sync');
+    const childSpan = spans.find(s => s.name === 'synquer.job create_invoice');
+    expect(jobSpan?.parentSpanId).toBe(requestSpanId);
+    expect(childSpan?.parentSpanId).toBe(jobSpan?.spanContext().spanId);
+
+    const started = transport.events.find(e => e.type === 'job.started' && e.data?.jobType === 'order_sync');
+    expect(started?.data?.trace).toEqual(expect.objectContaining({ parentSpanId: requestSpanId }));
+  });
+
+  it('captures the active trace context without exporting spans', async () => {
+    const client = new Synquer({ transport, plugins: [new OpenTelemetryBridge({ api: { trace, context } })] });
+
+    let ids: Record<string, string> = {};
+    await tracer.startActiveSpan('http.request', async (requestSpan) => {
+      ids = { traceId: requestSpan.spanContext().traceId, spanId: requestSpan.spanContext().spanId };
+      await client.job({ type: 'order_sync' }).done();
+      requestSpan.end();
+    });
+
+    expect(transport.events[0].data?.trace).toEqual(ids);
+    expect(exporter.getFinishedSpans().map(s => s.name)).toEqual(['http.request']);
+  });
+});
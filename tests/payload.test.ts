@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { chunkEvents, eventBytes, truncateEvent } from '../src/payload.js';
+import type { IngestEvent } from '../src/types.js';
+
+const event = (data: Record<string, unknown>): IngestEvent => ({
+  jobId: 'job-1',
+  type: 'job.event',
+  timestamp: 0,
+  data,
+});
+
+const bodyBytes = (events: IngestEvent[]) => Buffer.byteLength(JSON.stringify({ events }));
+
+describe('chunkEvents', () => {
+  it('keeps events in one batch when they fit', () => {
+    const events = [event({ n: 1 }), event({ n: 2 })];
+    expect(chunkEvents(events, 10_000)).toEqual([events]);
+  });
+
+  it('splits events into batches that fit the limit', () => {
+    const events = Array.from({ length: 10 }, (_, n) => event({ message: 'x'.repeat(100), n }));
+    const maxBytes = bodyBytes(events.slice(0, 3));
+
+    const chunks = chunkEvents(events, maxBytes);
+
+    expect(chunks.map(chunk => chunk.length)).toEqual([3, 3, 3, 1]);
+    expect(chunks.flat()).toEqual(events);
+    for (const chunk of chunks) {
+      expect(bodyBytes(chunk)).toBeLessThanOrEqual(maxBytes);
+    }
+  });
+
+  it('puts an event larger than the limit in a batch of its own', () => {
+    const large = event({ message: 'x'.repeat(1000) });
+    const chunks = chunkEvents([event({}), large, event({})], 500);
+
+    expect(chunks).toHaveLength(3);
+    expect(chunks[1]).toEqual([large]);
+  });
+});
+
+describe('truncateEvent', () => {
+  it('returns events that fit unchanged', () => {
+    const small = event({ message: 'Hello' });
+    expect(truncateEvent(small, 1000)).toBe(small);
+  });
+
+  it('cuts long strings in the data', () => {
+    const large = event({ message: 'Failed', error: { stack: 'x'.repeat(5000) } });
+
+    const result = truncateEvent(large, 2000)!;
+
+    expect(result.data).toMatchObject({ message: 'Failed', truncated: true });
+    expect((result.data!.error as { stack: string }).stack).toHaveLength(1025);
+    expect(eventBytes(result)).toBeLessThanOrEqual(2000);
+    expect(large.data!.message).toBe('Failed');
+  });
+
+  it('keeps only the message when cutting strings is not enough', () => {
+    const large = event({ message: 'Failed', items: Array.from({ length: 500 }, (_, n) => ({ n })) });
+
+    expect(truncateEvent(large, 500)!.data).toEqual({ message: 'Failed', truncated: true });
+  });
+
+  it('returns undefined when the event cannot fit', () => {
+    expect(truncateEvent(event({ message: 'Failed' }), 50)).toBeUndefined();
+  });
+});
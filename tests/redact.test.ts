@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { createRedactor, REDACT_PATTERNS } from '../src/redact.js';
+import type { IngestEvent } from '../src/types.js';
+
+function makeEvent(data: Record<string, unknown>): IngestEvent {
+  return { jobId: 'job-1', type: 'job.event', timestamp: 1, data };
+}
+
+describe('createRedactor', () => {
+  it('redacts values by key name at any depth', () => {
+    const redact = createRedactor({ keys: ['password', /^x-api-key$/i] });
+    const event = redact(makeEvent({
+      dbPassword: 'hunter2',
+      request: { headers: { 'X-Api-Key': 'abc', accept: 'json' } },
+      users: [{ name: 'Ann', password: 'secret' }],
+    }));
+
+    expect(event.data).toEqual({
+      dbPassword: '[REDACTED]',
+      request: { headers: { 'X-Api-Key': '[REDACTED]', accept: 'json' } },
+      users: [{ name: 'Ann', password: '[REDACTED]' }],
+    });
+  });
+
+  it('replaces value patterns inside strings', () => {
+    const redact = createRedactor({ patterns: [REDACT_PATTERNS.email, REDACT_PATTERNS.cardNumber] });
+    const event = redact(makeEvent({
+      message: 'Charged 4111 1111 1111 1111 for ann@example.com',
+    }));
+
+    expect(event.data?.message).toBe('Charged [REDACTED] for [REDACTED]');
+  });
+
+  it('accepts patterns without the global flag', () => {
+    const redact = createRedactor({ patterns: [/\d{3}-\d{4}/], replacement: '***' });
+    expect(redact(makeEvent({ note: '555-1234 or 555-9876' })).data?.note).toBe('*** or ***');
+  });
+
+  it('runs custom redactors', () => {
+    const redact = createRedactor({
+      redactors: [(key, value) => (key === 'customerId' ? `hash:${String(value).length}` : value)],
+    });
+
+    expect(redact(makeEvent({ customerId: 'C-12345' })).data).toEqual({ customerId: 'hash:7' });
+  });
+
+  it('replaces values a custom redactor throws on', () => {
+    const redact = createRedactor({
+      redactors: [(key, value) => {
+        if (key === 'token') throw new Error('boom');
+        return value;
+      }],
+    });
+
+    expect(redact(makeEvent({ token: 'secret', user: { id: 1 } })).data).toEqual({
+      token: '[REDACTED]',
+      user: { id: 1 },
+    });
+  });
+
+  it('truncates long strings and deep objects', () => {
+    const redact = createRedactor({ maxStringLength: 5, maxDepth: 2 });
+    const event = redact(makeEvent({
+      stack: 'Error: something long',
+      a: { b: { c: 1 } },
+    }));
+
+    expect(event.data).toEqual({ stack: 'Error…', a: { b: '[Truncated]' } });
+  });
+
+  it('handles circular references and serializable objects', () => {
+    const data: Record<string, unknown> = { at: new Date(0) };
+    data.self = data;
+
+    const event = createRedactor({})(makeEvent(data));
+    expect(event.data).toEqual({ at: '1970-01-01T00:00:00.000Z', self: '[Circular]' });
+  });
+
+  it('does not modify the original event', () => {
+    const original = makeEvent({ token: 'abc', nested: { token: 'def' } });
+    createRedactor({ keys: ['token'] })(original);
+
+    expect(original.data).toEqual({ token: 'abc', nested: { token: 'def' } });
+  });
+});
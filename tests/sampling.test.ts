@@ -0,0 +1,45 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Sampler } from '../src/sampling.js';
+
+describe('Sampler', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('keeps job types without a rule', () => {
+    const sampler = new Sampler({ inventory_update: { rate: 0 } });
+    expect(sampler.sample('order_sync')).toEqual({ sampled: true, keepFailed: true });
+  });
+
+  it('samples by rate', () => {
+    const random = vi.fn().mockReturnValueOnce(0.05).mockReturnValueOnce(0.5);
+    const sampler = new Sampler({ inventory_update: { rate: 0.1 } }, random);
+
+    expect(sampler.sample('inventory_update').sampled).toBe(true);
+    expect(sampler.sample('inventory_update').sampled).toBe(false);
+  });
+
+  it('limits jobs per time window', () => {
+    vi.useFakeTimers();
+    const sampler = new Sampler({ inventory_update: { limit: { count: 2, windowMs: 1000 } } });
+
+    expect(sampler.sample('inventory_update').sampled).toBe(true);
+    expect(sampler.sample('inventory_update').sampled).toBe(true);
+    expect(sampler.sample('inventory_update').sampled).toBe(false);
+
+    vi.advanceTimersByTime(1000);
+    expect(sampler.sample('inventory_update').sampled).toBe(true);
+  });
+
+  it('applies the wildcard rule to other types', () => {
+    const sampler = new Sampler({ '*': { rate: 0, keepFailed: false }, order_sync: { rate: 1 } });
+
+    expect(sampler.sample('order_sync').sampled).toBe(true);
+    expect(sampler.sample('anything_else')).toEqual({ sampled: false, keepFailed: false });
+  });
+
+  it('rejects rates outside 0 to 1', () => {
+    expect(() => new Sampler({ test: { rate: 1.5 } })).toThrow('between 0 and 1');
+    expect(() => new Sampler({ test: { rate: Number.NaN } })).toThrow(RangeError);
+  });
+});
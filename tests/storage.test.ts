@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FileQueueStorage } from '../src/storage.js';
+import type { IngestEvent } from '../src/types.js';
+
+function makeEvent(jobId: string): IngestEvent {
+  return { jobId, type: 'job.started', timestamp: Date.now(), data: { jobType: 'test' } };
+}
+
+describe('FileQueueStorage', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'synquer-'));
+    path = join(dir, 'queue', 'events.ndjson');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('throws if path is empty', () => {
+    expect(() => new FileQueueStorage({ path: '' })).toThrow('storage path is required');
+  });
+
+  it('loads nothing when the file does not exist', async () => {
+    const storage = new FileQueueStorage({ path });
+    expect(await storage.load()).toEqual([]);
+  });
+
+  it('replays appended events that were not acknowledged', async () => {
+    const storage = new FileQueueStorage({ path });
+    await storage.load();
+    await storage.append([
+      { seq: 0, event: makeEvent('a') },
+      { seq: 1, event: makeEvent('b') },
+      { seq: 2, event: makeEvent('c') },
+    ]);
+    await storage.ack([1]);
+
+    const restored = await new FileQueueStorage({ path }).load();
+    expect(restored.map(entry => entry.seq)).toEqual([0, 2]);
+    expect(restored.map(entry => entry.event.jobId)).toEqual(['a', 'c']);
+  });
+
+  it('truncates the file once every event is acknowledged', async () => {
+    const storage = new FileQueueStorage({ path });
+    await storage.load();
+    await storage.append([{ seq: 0, event: makeEvent('a') }]);
+    await storage.ack([0]);
+
+    expect(statSync(path).size).toBe(0);
+  });
+
+  it('skips a partially written last line', async () => {
+    const storage = new FileQueueStorage({ path });
+    await storage.load();
+    await storage.append([{ seq: 0, event: makeEvent('a') }]);
+    writeFileSync(path, readFileSync(path, 'utf8') + '{"seq":1,"eve', { flag: 'w' });
+
+    const restored = await new FileQueueStorage({ path }).load();
+    expect(restored).toHaveLength(1);
+    expect(restored[0]?.event.jobId).toBe('a');
+  });
+
+  it('rejects appends beyond maxBytes', async () => {
+    const storage = new FileQueueStorage({ path, maxBytes: 200 });
+    await storage.load();
+    await storage.append([{ seq: 0, event: makeEvent('a') }]);
+
+    await expect(storage.append([
+      { seq: 1, event: makeEvent('b') },
+      { seq: 2, event: makeEvent('c') },
+    ])).rejects.toThrow('not persisted');
+    expect(statSync(path).size).toBeLessThanOrEqual(200);
+  });
+
+  it('compacts acknowledged entries to make room', async () => {
+    const storage = new FileQueueStorage({ path, maxBytes: 250 });
+    await storage.load();
+    await storage.append([{ seq: 0, event: makeEvent('a') }]);
+    await storage.append([{ seq: 1, event: makeEvent('b') }]);
+    await storage.ack([0]);
+
+    await expect(storage.append([{ seq: 2, event: makeEvent('c') }])).resolves.toBeUndefined();
+    expect((await new FileQueueStorage({ path }).load()).map(entry => entry.seq)).toEqual([1, 2]);
+  });
+});
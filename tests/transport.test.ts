@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { PassThrough } from 'node:stream';
+import { HttpTransport, InMemoryTransport, NdjsonTransport, TransportError } from '../src/transport.js';
+import type { IngestEvent } from '../src/types.js';
+
+const events: IngestEvent[] = [
+  { jobId: 'job-1', type: 'job.started', timestamp: 1, data: { jobType: 'test' } },
+  { jobId: 'job-1', type: 'job.done', timestamp: 2, data: { durationMs: 1 } },
+];
+
+describe('HttpTransport', () => {
+  let fetchSpy: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchSpy = vi.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: () => Promise.resolve({ received: 2, processed: 2, errors: [] }),
+    });
+    vi.stubGlobal('fetch', fetchSpy);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('throws if apiKey is empty', () => {
+    expect(() => new HttpTransport({ apiKey: '' })).toThrow('apiKey is required');
+  });
+
+  it('posts events and returns the batch response', async () => {
+    const transport = new HttpTransport({ apiKey: 'sk_dev_test', baseUrl: 'http://localhost:3001/' });
+    const response = await transport.send(events);
+
+    expect(response).toEqual({ received: 2, processed: 2, errors: [] });
+    const [url, opts] = fetchSpy.mock.calls[0];
+    expect(url).toBe('http://localhost:3001/v1/events/batch');
+    expect(JSON.parse(opts.body).events).toEqual(events);
+  });
+
+  it('throws a non-retryable TransportError on 400', async () => {
+    fetchSpy.mockResolvedValue({ ok: false, status: 400, json: () => Promise.resolve({ error: 'Validation error' }) });
+    const transport = new HttpTransport({ apiKey: 'sk_dev_test' });
+
+    const error = await transport.send(events).catch(err => err);
+    expect(error).toBeInstanceOf(TransportError);
+    expect(error.status).toBe(400);
+    expect(error.retryable).toBe(false);
+    expect(error.message).toBe('Synquer API error 400: Validation error');
+  });
+
+  it('throws a retryable TransportError on 503', async () => {
+    fetchSpy.mockResolvedValue({ ok: false, status: 503, json: () => Promise.resolve({}) });
+    const transport = new HttpTransport({ apiKey: 'sk_dev_test' });
+
+    const error = await transport.send(events).catch(err => err);
+    expect(error).toBeInstanceOf(TransportError);
+    expect(error.retryable).toBe(true);
+  });
+
+  it('parses Retry-After in seconds and as an HTTP date', async () => {
+    const transport = new HttpTransport({ apiKey: 'sk_dev_test' });
+
+    fetchSpy.mockResolvedValueOnce({ ok: false, status: 429, headers: new Headers({ 'Retry-After': '2' }), json: () => Promise.resolve({}) });
+    const seconds = await transport.send(events).catch(err => err);
+    expect(seconds.retryAfterMs).toBe(2000);
+
+    const date = new Date(Date.now() + 30_000).toUTCString();
+    fetchSpy.mockResolvedValueOnce({ ok: false, status: 503, headers: new Headers({ 'Retry-After': date }), json: () => Promise.resolve({}) });
+    const dated = await transport.send(events).catch(err => err);
+    expect(dated.retryAfterMs).toBeGreaterThan(25_000);
+    expect(dated.retryAfterMs).toBeLessThanOrEqual(30_000);
+  });
+});
+
+describe('InMemoryTransport', () => {
+  it('records sent batches', async () => {
+    const transport = new InMemoryTransport();
+    await transport.send(events);
+    await transport.send(events.slice(0, 1));
+
+    expect(transport.batches).toHaveLength(2);
+    expect(transport.events).toHaveLength(3);
+
+    transport.clear();
+    expect(transport.events).toHaveLength(0);
+  });
+
+  it('uses the respond handler for the response', async () => {
+    const transport = new InMemoryTransport({
+      respond: () => ({ received: 2, processed: 1, errors: [{ index: 1, error: 'oops' }] }),
+    });
+
+    const response = await transport.send(events);
+    expect(response).toEqual({ received: 2, processed: 1, errors: [{ index: 1, error: 'oops' }] });
+  });
+});
+
+describe('NdjsonTransport', () => {
+  it('requires exactly one of stream or path', () => {
+    expect(() => new NdjsonTransport({})).toThrow('either stream or path');
+    expect(() => new NdjsonTransport({ stream: new PassThrough(), path: '/tmp/x' })).toThrow('either stream or path');
+  });
+
+  it('writes one JSON line per event to a stream', async () => {
+    const stream = new PassThrough();
+    const chunks: string[] = [];
+    stream.on('data', chunk => chunks.push(chunk.toString()));
+
+    await new NdjsonTransport({ stream }).send(events);
+
+    const lines = chunks.join('').trim().split('\n');
+    expect(lines.map(line => JSON.parse(line))).toEqual(events);
+  });
+
+  it('appends to a file', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'synquer-'));
+    const path = join(dir, 'events.ndjson');
+
+    try {
+      const transport = new NdjsonTransport({ path });
+      await transport.send(events);
+      await transport.send(events);
+
+      expect(readFileSync(path, 'utf8').trim().split('\n')).toHaveLength(4);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});